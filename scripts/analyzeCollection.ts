@@ -0,0 +1,227 @@
+// Batch-analyze a local folder of token images into a JSON + CSV dataset.
+//
+//   npm run analyze -- --images ./images --out ./dataset [--project meridian]
+//                      [--from 0] [--to 999] [--concurrency 4] [--resume]
+//                      [--metadata ./meridian-metadata.json]
+//
+// Images are expected to be named by on-chain token number, like `163000042.png`
+// for Meridian #042. Results are merged into an existing JSON dataset in `--out`, so
+// ranges can be analyzed in separate runs: tokens in the range are analyzed again and
+// the others are kept. With `--resume`, tokens already in the dataset are skipped.
+// With `--metadata`, saved token API responses are joined with the dataset and the
+// colors named in each token's traits are checked against its measured palette.
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Jimp } from 'jimp';
+import { analyzeArtwork } from '../src/analysis';
+import {
+  CollectionDataset,
+  DATASET_VERSION,
+  getDatasetFileName,
+  recordsToCsv,
+  TokenRecord,
+  traitRecordsToCsv,
+} from '../src/dataset';
+import { indexMetadataFixture, joinTraits, MetadataFixture, TraitColorCheck } from '../src/metadata';
+import { ArtBlocksProject, DEFAULT_PROJECT, getArtworkFileName, PROJECTS } from '../src/projects';
+
+// Write the dataset to disk every N analyzed tokens so an interrupted run can resume
+const CHECKPOINT_EVERY = 25;
+
+interface CliOptions {
+  project: ArtBlocksProject;
+  images: string;
+  out: string;
+  from: number;
+  to: number;
+  concurrency: number;
+  resume: boolean;
+  // Saved token API responses to join with the dataset, if any
+  metadata: string;
+}
+
+const usage = () => {
+  console.log('Usage: npm run analyze -- --images <dir> --out <dir> [--project <slug>] [--from N] [--to N] [--concurrency N] [--resume] [--metadata <file>]');
+  console.log(`Projects: ${PROJECTS.map(p => p.slug).join(', ')}`);
+};
+
+// Function to parse `--flag value` style arguments
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    project: DEFAULT_PROJECT,
+    images: '',
+    out: 'dataset',
+    from: 0,
+    // Filled in from the project once all arguments are read
+    to: NaN,
+    concurrency: 4,
+    resume: false,
+    metadata: '',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    switch (arg) {
+      case '--project': {
+        const project = PROJECTS.find(p => p.slug === value);
+        if (!project) throw new Error(`Unknown project: ${value}`);
+        options.project = project;
+        i++;
+        break;
+      }
+      case '--images':
+        options.images = value;
+        i++;
+        break;
+      case '--out':
+        options.out = value;
+        i++;
+        break;
+      case '--from':
+        options.from = Number(value);
+        i++;
+        break;
+      case '--to':
+        options.to = Number(value);
+        i++;
+        break;
+      case '--concurrency':
+        options.concurrency = Number(value);
+        i++;
+        break;
+      case '--resume':
+        options.resume = true;
+        break;
+      case '--metadata':
+        options.metadata = value;
+        i++;
+        break;
+      case '--help':
+        usage();
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.images) {
+    throw new Error('--images is required');
+  }
+  const { tokenCount } = options.project;
+  if (Number.isNaN(options.to)) {
+    options.to = tokenCount - 1;
+  }
+  if (!Number.isInteger(options.from) || !Number.isInteger(options.to) ||
+      options.from < 0 || options.to >= tokenCount || options.from > options.to) {
+    throw new Error(`--from/--to must be integers within 0-${tokenCount - 1}`);
+  }
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+
+  return options;
+};
+
+// Function to load a previous dataset to merge into, or skip finished tokens of
+const loadExisting = (jsonPath: string): TokenRecord[] => {
+  if (!existsSync(jsonPath)) return [];
+  const dataset: CollectionDataset = JSON.parse(readFileSync(jsonPath, 'utf8'));
+  if (dataset.version !== DATASET_VERSION) {
+    console.warn(`Existing dataset is version ${dataset.version}, expected ${DATASET_VERSION}; starting over`);
+    return [];
+  }
+  return dataset.records;
+};
+
+const writeDataset = (options: CliOptions, records: Map<number, TokenRecord>) => {
+  const sorted = Array.from(records.values()).sort((a, b) => a.tokenId - b.tokenId);
+  const dataset: CollectionDataset = {
+    version: DATASET_VERSION,
+    project: options.project.slug,
+    generatedAt: new Date().toISOString(),
+    records: sorted,
+  };
+  const fileName = getDatasetFileName(options.project);
+  writeFileSync(join(options.out, `${fileName}.json`), JSON.stringify(dataset, null, 2));
+  writeFileSync(join(options.out, `${fileName}.csv`), recordsToCsv(sorted));
+};
+
+// Function to check the traits of every token in the dataset that the saved responses cover,
+// returning how many of the checked colors were found
+const writeTraitChecks = (options: CliOptions, records: Map<number, TokenRecord>) => {
+  const fixture: MetadataFixture = JSON.parse(readFileSync(options.metadata, 'utf8'));
+  const metadata = indexMetadataFixture(options.project, fixture);
+  if (metadata.size === 0) {
+    throw new Error(`${options.metadata} has no ${options.project.name} tokens`);
+  }
+  const analyses = new Map(Array.from(records.values()).map(record => [record.tokenId, record.analysis]));
+  const joined = joinTraits(analyses, metadata);
+  writeFileSync(join(options.out, `${getDatasetFileName(options.project)}-traits.csv`), traitRecordsToCsv(joined));
+
+  const checks = joined.reduce((all, record) => all.concat(record.checks), [] as TraitColorCheck[]);
+  return { tokens: joined.length, checks: checks.length, matched: checks.filter(c => c.matched).length };
+};
+
+const analyzeToken = async (options: CliOptions, tokenId: number): Promise<TokenRecord> => {
+  const file = getArtworkFileName(options.project, tokenId);
+  const image = await Jimp.read(join(options.images, file));
+  const analysis = await analyzeArtwork(image.bitmap);
+  return { tokenId, file, analysis };
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  mkdirSync(options.out, { recursive: true });
+
+  const jsonPath = join(options.out, `${getDatasetFileName(options.project)}.json`);
+  // Records outside the range are written back untouched
+  const records = new Map<number, TokenRecord>(loadExisting(jsonPath).map(record => [record.tokenId, record]));
+
+  const queue: number[] = [];
+  for (let tokenId = options.from; tokenId <= options.to; tokenId++) {
+    if (!options.resume || !records.has(tokenId)) queue.push(tokenId);
+  }
+
+  console.log(`Analyzing ${queue.length} ${options.project.name} tokens (${records.size} already in the dataset) with concurrency ${options.concurrency}`);
+
+  const failures: Array<{ tokenId: number, error: string }> = [];
+  let completed = 0;
+
+  const runWorker = async () => {
+    while (queue.length > 0) {
+      const tokenId = queue.shift()!;
+      try {
+        records.set(tokenId, await analyzeToken(options, tokenId));
+      } catch (error) {
+        failures.push({ tokenId, error: error instanceof Error ? error.message : String(error) });
+      }
+      completed++;
+      if (completed % CHECKPOINT_EVERY === 0) {
+        writeDataset(options, records);
+        console.log(`  ${completed} processed, ${failures.length} failed`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: options.concurrency }, runWorker));
+  writeDataset(options, records);
+
+  console.log(`Done: ${records.size} records written to ${options.out}`);
+  if (options.metadata) {
+    const traits = writeTraitChecks(options, records);
+    console.log(`Traits: ${traits.matched} of ${traits.checks} named colors found across ${traits.tokens} tokens`);
+  }
+  if (failures.length > 0) {
+    console.error(`${failures.length} tokens failed:`);
+    failures.forEach(f => console.error(`  #${f.tokenId}: ${f.error}`));
+    process.exitCode = 1;
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  usage();
+  process.exit(1);
+});
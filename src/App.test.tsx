@@ -2,8 +2,12 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// jsdom has no workers, so analysis runs inline and the worker factories are never called
+jest.mock('./analysis/createAnalysisWorker', () => ({ createAnalysisWorker: jest.fn() }));
+jest.mock('./geometrize/createGeometrizeWorker', () => ({ createGeometrizeWorker: jest.fn() }));
+
+test('renders the viewer heading', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  const heading = screen.getByText(/meridian art viewer/i);
+  expect(heading).toBeInTheDocument();
 });
@@ -1,12 +1,10 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Vibrant } from "node-vibrant/browser";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   ChakraProvider,
   Box,
   Flex,
   Input,
   Button,
-  Image as ChakraImage,
   Container,
   Heading,
   useToast,
@@ -15,360 +13,204 @@ import {
   GridItem,
   Text,
   Divider,
+  ButtonGroup,
+  Badge,
+  Slider,
+  SliderTrack,
+  SliderFilledTrack,
+  SliderThumb,
+  Progress,
+  Select,
+  extendTheme,
+  theme as baseTheme,
 } from '@chakra-ui/react';
+import {
+  AnalysisOptions,
+  AnalysisProgress,
+  AnalysisStage,
+  ArtworkAnalysis,
+  backgroundToCss,
+  BackgroundKind,
+  BandLayout,
+  ColorMetric,
+  DEFAULT_ANALYSIS_OPTIONS,
+  EXTRACTORS,
+  orderKeyColors,
+  PercentageMode,
+  PixelData,
+  rgbToCss,
+} from './analysis';
+import { isAbortError, runAnalysis } from './analysis/runAnalysis';
+import { getCachedAnalysis, getCachedImage, hashAnalysisOptions, putCachedAnalysis, putCachedImage } from './cache';
+import {
+  ArtBlocksProject,
+  getAdjacentTokenId,
+  getArtworkImageUrl,
+  getProject,
+  getRandomTokenId,
+  getTokenLabel,
+  getTokenUrl,
+  isValidTokenId,
+  PROJECTS,
+} from './projects';
+import ColorStack from './components/ColorStack';
+import Gallery from './components/Gallery';
+import ColorSearch from './components/ColorSearch';
+import CompareView from './components/CompareView';
+import StatsDashboard from './components/StatsDashboard';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import AdvancedSettings from './components/AdvancedSettings';
+import ArtworkHighlight from './components/ArtworkHighlight';
+import ExtractorComparison from './components/ExtractorComparison';
+import CacheSettings from './components/CacheSettings';
+import CopyColorMenu from './components/CopyColorMenu';
+import GeometrizePanel from './components/GeometrizePanel';
+import SimilarArtworks from './components/SimilarArtworks';
+import TokenTraits from './components/TokenTraits';
+import MaterialThemePanel from './components/MaterialThemePanel';
+import PaletteExportMenu from './components/PaletteExportMenu';
+import { useArrowKeys } from './hooks/useArrowKeys';
+import { getImageFile, useClipboardImage } from './hooks/useClipboardImage';
+import { useHashRoute } from './hooks/useHashRoute';
+import { usePreloadTokens } from './hooks/usePreloadTokens';
+import { AppView, ViewOptions } from './route';
+import { decodeImage } from './artwork';
+import { buildMaterialTheme, getSeedColor } from './theme';
+import { getAnalysisThresholds, Tuning } from './tuning';
 
-function App() {
-  const [artworkId, setArtworkId] = useState('');
-  const [artworkUrl, setArtworkUrl] = useState('');
-  const [backgroundColor, setBackgroundColor] = useState('#FFFFFF');
-  const [keyColors, setKeyColors] = useState<string[]>([]);
-  const [colorPercentages, setColorPercentages] = useState<Map<string, number>>(new Map());
-  const [loading, setLoading] = useState(false);
-  const [palette, setPalette] = useState<any>(null);
-  const extractingRef = useRef(false);
-  const toast = useToast();
-
-  // Function to convert hex to RGB
-  const hexToRgb = useCallback((hex: string) => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : null;
-  }, []);
-
-  // Function to calculate color distance
-  const colorDistance = useCallback((rgb1: { r: number, g: number, b: number }, rgb2: { r: number, g: number, b: number }) => {
-    return Math.sqrt(
-      Math.pow(rgb1.r - rgb2.r, 2) +
-      Math.pow(rgb1.g - rgb2.g, 2) +
-      Math.pow(rgb1.b - rgb2.b, 2)
-    );
-  }, []);
-
-  // Function to calculate color luminance
-  const getLuminance = (r: number, g: number, b: number) => {
-    const a = [r, g, b].map(v => {
-      v /= 255;
-      return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-    });
-    return a[0] * 0.2126 + a[1] * 0.7152 + a[2] * 0.0722;
-  };
-
-  // Function to convert RGB to HSL
-  const rgbToHsl = (r: number, g: number, b: number) => {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0;
-    let s = 0;
-    const l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-      switch (max) {
-        case r:
-          h = (g - b) / d + (g < b ? 6 : 0);
-          break;
-        case g:
-          h = (b - r) / d + 2;
-          break;
-        case b:
-          h = (r - g) / d + 4;
-          break;
-      }
-      h /= 6;
-    }
-
-    return { h: h * 360, s: s * 100, l: l * 100 };
-  };
+const CACHE_IMAGES_KEY = 'meridian-art-viewer.cacheImages';
+const MATERIAL_THEME_KEY = 'meridian-art-viewer.materialTheme';
 
-  // Function to check if two colors are similar with stricter thresholds
-  const areColorsSimilar = (color1: string, color2: string) => {
-    const rgb1 = hexToRgb(color1);
-    const rgb2 = hexToRgb(color2);
-    
-    if (!rgb1 || !rgb2) return false;
-
-    // Calculate RGB color difference using a weighted approach
-    const deltaR = Math.abs(rgb1.r - rgb2.r);
-    const deltaG = Math.abs(rgb1.g - rgb2.g);
-    const deltaB = Math.abs(rgb1.b - rgb2.b);
-
-    // Calculate luminance
-    const lum1 = getLuminance(rgb1.r, rgb1.g, rgb1.b);
-    const lum2 = getLuminance(rgb2.r, rgb2.g, rgb2.b);
-    const lumDiff = Math.abs(lum1 - lum2);
-
-    // Calculate HSL values
-    const hsl1 = rgbToHsl(rgb1.r, rgb1.g, rgb1.b);
-    const hsl2 = rgbToHsl(rgb2.r, rgb2.g, rgb2.b);
-
-    // Calculate HSL differences
-    const hueDiff = Math.abs(hsl1.h - hsl2.h);
-    const satDiff = Math.abs(hsl1.s - hsl2.s);
-    const lightDiff = Math.abs(hsl1.l - hsl2.l);
-
-    // Weighted color difference in RGB space
-    const weightedColorDiff = Math.sqrt(
-      (deltaR * deltaR * 0.299) +
-      (deltaG * deltaG * 0.587) +
-      (deltaB * deltaB * 0.114)
-    );
+// Slideshow delays between tokens, in seconds
+const SLIDESHOW_INTERVALS = [3, 5, 10, 20, 30];
+const DEFAULT_SLIDESHOW_INTERVAL = 5;
 
-    // More strict thresholds
-    const isColorSimilar = weightedColorDiff < 15; // Even more strict
-    const isLuminanceSimilar = lumDiff < 0.08; // Even more strict
-    const isHueSimilar = hueDiff < 15 || hueDiff > 345; // Consider both small and wraparound differences
-    const isSatSimilar = satDiff < 20;
-    const isLightSimilar = lightDiff < 15;
-
-    // Consider colors similar if they're close in both RGB and HSL space
-    const isRGBSimilar = isColorSimilar && isLuminanceSimilar;
-    const isHSLSimilar = isHueSimilar && isSatSimilar && isLightSimilar;
-    
-    return isRGBSimilar || isHSLSimilar;
-  };
+// Uploaded renders can be far larger than token images; analyze them at this longer side
+const MAX_LOCAL_IMAGE_SIZE = 2048;
 
-  // Function to calculate color difference score
-  const getColorDifferenceScore = (color1: string, color2: string) => {
-    const rgb1 = hexToRgb(color1);
-    const rgb2 = hexToRgb(color2);
-    
-    if (!rgb1 || !rgb2) return 0;
-
-    const deltaR = rgb1.r - rgb2.r;
-    const deltaG = rgb1.g - rgb2.g;
-    const deltaB = rgb1.b - rgb2.b;
-
-    // Calculate weighted color difference
-    const weightedDiff = Math.sqrt(
-      (deltaR * deltaR * 0.299) +
-      (deltaG * deltaG * 0.587) +
-      (deltaB * deltaB * 0.114)
-    );
+const ANALYSIS_STAGE_LABELS: { [stage in AnalysisStage]: string } = {
+  monochrome: 'Measuring black and white',
+  background: 'Detecting background',
+  palette: 'Extracting palette',
+  positions: 'Locating colors',
+  coverage: 'Measuring coverage',
+};
 
-    // Calculate luminance difference
-    const lum1 = getLuminance(rgb1.r, rgb1.g, rgb1.b);
-    const lum2 = getLuminance(rgb2.r, rgb2.g, rgb2.b);
-    const lumDiff = Math.abs(lum1 - lum2);
+const BACKGROUND_BADGE_COLORS: { [kind in BackgroundKind]: string } = {
+  solid: 'green',
+  gradient: 'purple',
+  uncertain: 'orange',
+};
 
-    // Combined score with adjusted weights
-    return (weightedDiff * 0.7) + (lumDiff * 255 * 0.3);
-  };
+function App() {
+  const [artworkId, setArtworkId] = useState('');
+  const [artworkUrl, setArtworkUrl] = useState('');
+  const [viewedTokenId, setViewedTokenId] = useState<number | null>(null);
+  // The project the viewed token belongs to, which can lag behind the route's project
+  const [viewedProject, setViewedProject] = useState<ArtBlocksProject | null>(null);
+  // File name of an uploaded, dropped or pasted image, shown instead of a token
+  const [localFileName, setLocalFileName] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [analysis, setAnalysis] = useState<ArtworkAnalysis | null>(null);
+  const [pixels, setPixels] = useState<PixelData | null>(null);
+  const [selectedColors, setSelectedColors] = useState<number[]>([]);
+  const [highlightTolerance, setHighlightTolerance] = useState(DEFAULT_ANALYSIS_OPTIONS.assignmentTolerance);
+  const [sessionAnalyses, setSessionAnalyses] = useState<Map<number, ArtworkAnalysis>>(new Map());
+  // The view, token and view options live in the URL hash
+  const [route, navigate] = useHashRoute();
+  const {
+    view,
+    options: { percentage: percentageMode, layout: bandLayout, extractor: extractorChoice, metric, tuning, preset },
+  } = route;
+  // Side by side keeps the default backend in the viewer itself
+  const extractor = extractorChoice === 'all' ? DEFAULT_ANALYSIS_OPTIONS.extractor : extractorChoice;
+  // Parsed routes are new objects on every navigation, so key the options by value
+  // to re-analyze only when something that matters actually changed
+  const analysisOptionsKey = JSON.stringify({ extractor, metric, ...getAnalysisThresholds(tuning) });
+  const analysisOptions = useMemo(
+    () => JSON.parse(analysisOptionsKey) as Partial<AnalysisOptions>,
+    [analysisOptionsKey]
+  );
+  const project = getProject(route.project);
+  const projectRef = useRef(project);
+  const [cacheImages, setCacheImages] = useState(() => localStorage.getItem(CACHE_IMAGES_KEY) === 'true');
+  // Re-theme the app around the current artwork, on unless turned off
+  const [applyMaterialTheme, setApplyMaterialTheme] = useState(() => localStorage.getItem(MATERIAL_THEME_KEY) !== 'false');
+  const [loading, setLoading] = useState(false);
+  const [slideshow, setSlideshow] = useState(false);
+  const [slideshowInterval, setSlideshowInterval] = useState(DEFAULT_SLIDESHOW_INTERVAL);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Only the most recent artwork request may update the view
+  const latestRequestRef = useRef(0);
+  const requestedTokenRef = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const toast = useToast();
 
-  // Function to get edge histogram
-  const getEdgeHistogram = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    const edgeWidth = Math.max(5, Math.floor(Math.min(width, height) * 0.1));
-    const edges = [
-      // Top edge
-      ctx.getImageData(0, 0, width, edgeWidth),
-      // Right edge
-      ctx.getImageData(width - edgeWidth, 0, edgeWidth, height),
-      // Bottom edge
-      ctx.getImageData(0, height - edgeWidth, width, edgeWidth),
-      // Left edge
-      ctx.getImageData(0, 0, edgeWidth, height)
-    ];
-    
-    // Build histogram
-    const histogram: { [key: string]: number } = {};
-    edges.forEach(edge => {
-      for (let i = 0; i < edge.data.length; i += 4) {
-        const r = edge.data[i];
-        const g = edge.data[i + 1];
-        const b = edge.data[i + 2];
-        
-        // Quantize to reduce number of colors
-        const key = `${Math.floor(r/10)*10},${Math.floor(g/10)*10},${Math.floor(b/10)*10}`;
-        
-        if (!histogram[key]) histogram[key] = 0;
-        histogram[key]++;
-      }
-    });
-    
-    return histogram;
-  };
+  // Show a cached analysis right away, otherwise decode the image and analyze its
+  // pixels in a worker. A newer request cancels the one still running.
+  const extractColors = useCallback(async (
+    imageUrl: string,
+    tokenProject: ArtBlocksProject | null,
+    tokenId: number | null,
+    options: Partial<AnalysisOptions>
+  ) => {
+    // Other views compare tokens by the default analysis, so only share those
+    const shared = hashAnalysisOptions(options) === hashAnalysisOptions();
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    let showingCached = false;
 
-  // Extract colors using node-vibrant with advanced processing
-  const extractColors = useCallback(async (imageUrl: string) => {
-    if (extractingRef.current) {
-      return;
-    }
-    
-    extractingRef.current = true;
-    setLoading(true);
-    
     try {
-      console.log('Attempting to extract colors from:', imageUrl);
-
-      const getCornerColor = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-        const sampleSize = 10;
-        const corners = [
-          ctx.getImageData(0, 0, sampleSize, sampleSize),
-          ctx.getImageData(width - sampleSize, 0, sampleSize, sampleSize),
-          ctx.getImageData(0, height - sampleSize, sampleSize, sampleSize),
-          ctx.getImageData(width - sampleSize, height - sampleSize, sampleSize, sampleSize)
-        ];
-        
-        let rSum = 0, gSum = 0, bSum = 0;
-        let count = 0;
-        
-        corners.forEach(corner => {
-          for (let i = 0; i < corner.data.length; i += 4) {
-            rSum += corner.data[i];
-            gSum += corner.data[i + 1];
-            bSum += corner.data[i + 2];
-            count++;
-          }
-        });
-        
-        return {
-          r: Math.round(rSum / count),
-          g: Math.round(gSum / count),
-          b: Math.round(bSum / count)
-        };
-      };
-
-      const getColorVerticalPosition = (ctx: CanvasRenderingContext2D, width: number, height: number, targetRgb: { r: number, g: number, b: number }) => {
-        const imageData = ctx.getImageData(0, 0, width, height).data;
-        let totalY = 0;
-        let count = 0;
-        
-        for (let y = 0; y < height; y += 4) {
-          for (let x = 0; x < width; x += 4) {
-            const i = (y * width + x) * 4;
-            const r = imageData[i];
-            const g = imageData[i + 1];
-            const b = imageData[i + 2];
-            
-            if (colorDistance({ r, g, b }, targetRgb) < 30) {
-              totalY += y;
-              count++;
-            }
-          }
-        }
-        
-        return count > 0 ? totalY / count / height : 0.5;
-      };
-
-      // Create canvas for image analysis
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = imageUrl;
-      });
-
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-
-      // Analyze the image for black and white pixels
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
-      let whitePixelCount = 0;
-      let blackPixelCount = 0;
-      let totalPixels = imageData.length / 4;
-      const whiteThreshold = 240;
-      const blackThreshold = 30;
-      
-      // Track vertical positions for black and white
-      let whiteTotalY = 0;
-      let blackTotalY = 0;
-      let whiteCount = 0;
-      let blackCount = 0;
-      
-      for (let y = 0; y < canvas.height; y++) {
-        for (let x = 0; x < canvas.width; x++) {
-          const i = (y * canvas.width + x) * 4;
-          const r = imageData[i];
-          const g = imageData[i + 1];
-          const b = imageData[i + 2];
-          const brightness = (r + g + b) / 3;
-          
-          if (brightness >= whiteThreshold) {
-            whitePixelCount++;
-            whiteTotalY += y;
-            whiteCount++;
-          } else if (brightness <= blackThreshold) {
-            blackPixelCount++;
-            blackTotalY += y;
-            blackCount++;
-          }
-        }
+      const cached = tokenProject && tokenId !== null ? await getCachedAnalysis(tokenProject, tokenId, options) : null;
+      if (controller.signal.aborted) return;
+      if (cached) {
+        showingCached = true;
+        setAnalysis(cached);
+        setPixels(null);
+        setSelectedColors([]);
+        if (shared) setSessionAnalyses(prev => new Map(prev).set(tokenId!, cached));
+      } else {
+        setProgress({ stage: 'monochrome', progress: 0 });
       }
 
-      // Calculate black and white percentages and positions
-      const whitePercentage = (whitePixelCount / totalPixels) * 100;
-      const blackPercentage = (blackPixelCount / totalPixels) * 100;
-      const whitePosition = whiteCount > 0 ? whiteTotalY / whiteCount / canvas.height : 0;
-      const blackPosition = blackCount > 0 ? blackTotalY / blackCount / canvas.height : 0;
-      const significantThreshold = 5;
-
-      // Get corner color for background
-      const bgColor = getCornerColor(ctx, canvas.width, canvas.height);
-      setBackgroundColor(`rgb(${bgColor.r},${bgColor.g},${bgColor.b})`);
-
-      // Get Vibrant palette
-      const v = new Vibrant(img);
-      const newPalette = await v.getPalette();
-      setPalette(newPalette);
-
-      // Filter and process colors
-      let processedColors = Object.values(newPalette)
-        .filter(swatch => swatch !== null)
-        .filter(swatch => {
-          const rgb = hexToRgb(swatch!.hex);
-          return rgb && colorDistance(rgb, bgColor) > 45;
-        })
-        .map(swatch => {
-          const rgb = hexToRgb(swatch!.hex)!;
-          const verticalPosition = getColorVerticalPosition(ctx, canvas.width, canvas.height, rgb);
-          return {
-            color: swatch!.hex,
-            population: swatch!.population,
-            verticalPosition
-          };
-        });
+      console.log('Attempting to extract colors from:', imageUrl);
+      // Local images have no token, so they are neither cached nor full size
+      const imageData = await decodeImage(imageUrl, tokenProject ? Infinity : MAX_LOCAL_IMAGE_SIZE);
+      if (controller.signal.aborted) return;
 
-      // Add black if significant
-      if (blackPercentage >= significantThreshold) {
-        processedColors.push({
-          color: '#000000',
-          population: blackPixelCount,
-          verticalPosition: blackPosition
-        });
+      // Cached results only need the pixels for highlighting
+      if (cached) {
+        setPixels(imageData);
+        return;
       }
 
-      // Add white if significant
-      if (whitePercentage >= significantThreshold) {
-        processedColors.push({
-          color: '#FFFFFF',
-          population: whitePixelCount,
-          verticalPosition: whitePosition
-        });
+      const { analysis: result, pixels: analyzedPixels } = await runAnalysis(imageData, {
+        options,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setAnalysis(result);
+      setPixels(analyzedPixels);
+      setSelectedColors([]);
+      if (tokenProject && tokenId !== null) {
+        // Caching is best effort; a failed write must not discard the analysis on screen
+        putCachedAnalysis(tokenProject, tokenId, result, options)
+          .catch(cacheError => console.warn('Could not cache the analysis:', cacheError));
+        if (shared) setSessionAnalyses(prev => new Map(prev).set(tokenId, result));
       }
 
-      // Sort by vertical position
-      processedColors = processedColors.sort((a, b) => a.verticalPosition - b.verticalPosition);
-
-      // Update state with filtered colors
-      setKeyColors(processedColors.map(c => c.color));
-      setColorPercentages(new Map(
-        processedColors.map(c => [c.color, (c.population / processedColors.reduce((sum, fc) => sum + fc.population, 0)) * 100])
-      ));
-
-      console.log('Processed colors:', processedColors);
+      console.log('Processed colors:', result.keyColors);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error extracting colors:', error);
+      // A cached palette on screen stays valid; only highlighting needs the pixels
+      if (showingCached) return;
+      // Don't leave the previous artwork's palette next to the image that failed
+      setAnalysis(null);
+      setPixels(null);
+      setSelectedColors([]);
       toast({
         title: 'Error',
         description: 'Failed to extract colors from the image',
@@ -377,49 +219,91 @@ function App() {
         isClosable: true,
       });
     } finally {
-      setLoading(false);
-      extractingRef.current = false;
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setProgress(null);
+      }
     }
-  }, [toast, hexToRgb, colorDistance]);
+  }, [toast]);
+
+  // Cancel any running analysis when the app unmounts
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  // Release object URLs of cached images once they are no longer shown
+  useEffect(() => () => {
+    if (artworkUrl.startsWith('blob:')) URL.revokeObjectURL(artworkUrl);
+  }, [artworkUrl]);
+
+  // Remember whether artwork images should be cached
+  useEffect(() => {
+    localStorage.setItem(CACHE_IMAGES_KEY, String(cacheImages));
+  }, [cacheImages]);
+
+  // Remember whether the artwork's Material theme is applied
+  useEffect(() => {
+    localStorage.setItem(MATERIAL_THEME_KEY, String(applyMaterialTheme));
+  }, [applyMaterialTheme]);
 
   // Effect to extract colors when artwork URL changes
   useEffect(() => {
     if (artworkUrl) {
-      extractColors(artworkUrl);
+      extractColors(artworkUrl, viewedProject, viewedTokenId, analysisOptions);
     }
-  }, [artworkUrl, extractColors]);
+  }, [artworkUrl, viewedProject, viewedTokenId, analysisOptions, extractColors]);
 
-  const fetchArtwork = async () => {
-    if (!artworkId || isNaN(Number(artworkId)) || Number(artworkId) < 0 || Number(artworkId) > 999) {
+  // Function to check a typed or linked token number, warning when it is out of range
+  const validateTokenId = useCallback((id: string) => {
+    if (!isValidTokenId(project, id)) {
       toast({
         title: 'Invalid artwork ID',
-        description: 'Please enter a number between 0 and 999',
+        description: `Please enter a number between 0 and ${project.tokenCount - 1}`,
         status: 'error',
         duration: 3000,
         isClosable: true,
       });
-      return;
+      return false;
     }
+    return true;
+  }, [project, toast]);
 
-    if (loading) {
-      return;
-    }
+  const fetchArtwork = useCallback(async (tokenId: number) => {
+    const request = ++latestRequestRef.current;
 
     try {
-      const formattedTokenId = artworkId.toString().padStart(3, '0');
-      const imageUrl = `https://media.artblocks.io/163000${formattedTokenId}.png`;
-      
-      // Preload the image
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = imageUrl;
-      });
+      let imageUrl = getArtworkImageUrl(project, tokenId);
+      const cachedImage = await getCachedImage(project, tokenId);
+
+      if (cachedImage) {
+        imageUrl = URL.createObjectURL(cachedImage);
+      } else if (cacheImages) {
+        // Download once and keep the blob for later visits
+        const response = await fetch(imageUrl);
+        if (!response.ok) throw new Error(`Image request failed with ${response.status}`);
+        const blob = await response.blob();
+        putCachedImage(project, tokenId, blob)
+          .catch(cacheError => console.warn('Could not cache the image:', cacheError));
+        imageUrl = URL.createObjectURL(blob);
+      } else {
+        // Preload the image
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        await new Promise((resolve, reject) => {
+          img.onload = resolve;
+          img.onerror = reject;
+          img.src = imageUrl;
+        });
+      }
+
+      if (request !== latestRequestRef.current) {
+        if (imageUrl.startsWith('blob:')) URL.revokeObjectURL(imageUrl);
+        return;
+      }
 
       console.log('Image loaded successfully:', imageUrl);
       setArtworkUrl(imageUrl);
+      setLocalFileName(null);
+      setViewedProject(project);
+      setViewedTokenId(tokenId);
     } catch (error) {
       console.error('Error loading image:', error);
       toast({
@@ -430,34 +314,198 @@ function App() {
         isClosable: true,
       });
     }
+  }, [cacheImages, project, toast]);
+
+  // Start afresh when switching projects: token indices mean different artworks there
+  useEffect(() => {
+    if (projectRef.current === project) return;
+    projectRef.current = project;
+    analysisAbortRef.current?.abort();
+    latestRequestRef.current++;
+    requestedTokenRef.current = null;
+    setSlideshow(false);
+    setArtworkId('');
+    setArtworkUrl('');
+    setLocalFileName(null);
+    setViewedProject(null);
+    setViewedTokenId(null);
+    setAnalysis(null);
+    setPixels(null);
+    setSelectedColors([]);
+    setSessionAnalyses(new Map());
+  }, [project]);
+
+  // Load the token named in the URL, so links, reloads and back/forward all show it
+  useEffect(() => {
+    const { tokenId } = route;
+    if (tokenId === null || tokenId === requestedTokenRef.current) return;
+    requestedTokenRef.current = tokenId;
+    setArtworkId(String(tokenId));
+    if (!validateTokenId(String(tokenId))) return;
+
+    setLoading(true);
+    fetchArtwork(tokenId).finally(() => {
+      if (requestedTokenRef.current === tokenId) setLoading(false);
+    });
+  }, [route, fetchArtwork, validateTokenId]);
+
+  // Function to show a token in the viewer by pushing its route
+  const openToken = (id: string) => {
+    if (!validateTokenId(id)) return;
+    navigate({ ...route, view: 'viewer', tokenId: Number(id) });
+  };
+
+  // Token the previous/next controls step from: the one requested, else the one shown
+  const currentTokenId = route.tokenId ?? viewedTokenId;
+
+  // Function to show the token before or after the current one; slideshow steps
+  // replace the history entry instead of adding one per token
+  const stepToken = useCallback((step: number, replace = false) => {
+    if (currentTokenId === null) return;
+    navigate(
+      { ...route, view: 'viewer', tokenId: getAdjacentTokenId(project, currentTokenId, step) },
+      { replace }
+    );
+  }, [currentTokenId, navigate, project, route]);
+
+  const openRandomToken = () => {
+    navigate({ ...route, view: 'viewer', tokenId: getRandomTokenId(project, currentTokenId) });
   };
 
-  // Update the color swatches display to show labels
-  const getColorLabel = (color: string) => {
-    // Handle special cases for black and white
-    if (color === '#000000') return 'Black';
-    if (color === '#FFFFFF') return 'White';
-
-    // Get the palette object for comparison
-    const paletteColors = {
-      Vibrant: palette?.Vibrant?.hex,
-      'Dark Vibrant': palette?.DarkVibrant?.hex,
-      'Light Vibrant': palette?.LightVibrant?.hex,
-      Muted: palette?.Muted?.hex,
-      'Dark Muted': palette?.DarkMuted?.hex,
-      'Light Muted': palette?.LightMuted?.hex
-    };
-
-    // Find matching palette color
-    for (const [label, hex] of Object.entries(paletteColors)) {
-      if (hex === color) return label;
+  useArrowKeys(stepToken, view === 'viewer' && !localFileName);
+
+  // Advance the slideshow once the current token has been shown and analyzed
+  useEffect(() => {
+    if (!slideshow || view !== 'viewer' || route.tokenId === null || loading || progress) return;
+    const timer = window.setTimeout(() => stepToken(1, true), slideshowInterval * 1000);
+    return () => window.clearTimeout(timer);
+  }, [slideshow, slideshowInterval, view, route.tokenId, loading, progress, stepToken]);
+
+  // Warm the caches for the neighbors once the viewed token is done, so stepping to
+  // them shows a cached analysis instead of loading and analyzing again
+  const settled = view === 'viewer' && viewedProject === project && viewedTokenId !== null
+    && analysis !== null && !loading && !progress;
+  usePreloadTokens(
+    project,
+    settled ? [getAdjacentTokenId(project, viewedTokenId!, 1), getAdjacentTokenId(project, viewedTokenId!, -1)] : [],
+    analysisOptions,
+    cacheImages
+  );
+
+  const setView = (next: AppView) => {
+    navigate({
+      ...route,
+      view: next,
+      tokenId: next === 'viewer' ? viewedTokenId : null,
+      // Start a comparison from the artwork being viewed
+      tokens: next === 'compare' && route.view !== 'compare' && viewedTokenId !== null ? [viewedTokenId] : route.tokens,
+    });
+  };
+
+  // Show an image from the user's machine in the viewer, in place of any token
+  const openLocalImage = useCallback((file: File, name = file.name) => {
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: 'Unsupported file',
+        description: `${name} is not an image`,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
     }
+    // Drop any token still loading, and let the URL's token load again later
+    latestRequestRef.current++;
+    requestedTokenRef.current = null;
+    setLoading(false);
+    setSlideshow(false);
+    setArtworkId('');
+    setViewedProject(null);
+    setViewedTokenId(null);
+    setLocalFileName(name);
+    setArtworkUrl(URL.createObjectURL(file));
+    navigate({ ...route, view: 'viewer', tokenId: null });
+  }, [navigate, route, toast]);
+
+  const openPastedImage = useCallback((file: File) => openLocalImage(file, 'Pasted image'), [openLocalImage]);
+  useClipboardImage(openPastedImage);
+
+  const dropImage = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    const file = getImageFile(event.dataTransfer) ?? event.dataTransfer.files[0];
+    if (file) openLocalImage(file);
+  };
+
+  // Switching projects starts over with no token selected
+  const setProject = (slug: string) => {
+    navigate({ ...route, project: slug, tokenId: null, tokens: [] });
+  };
+
+  const setCompareTokens = (tokens: number[]) => navigate({ ...route, view: 'compare', tokens });
+
+  // Keep analyses made by other views, so the gallery and search can use them too
+  const addSessionAnalysis = useCallback((tokenId: number, result: ArtworkAnalysis) => {
+    setSessionAnalyses(prev => new Map(prev).set(tokenId, result));
+  }, []);
+
+  // View options replace the current history entry instead of adding one
+  const setPercentageMode = (percentage: PercentageMode) => {
+    navigate({ ...route, options: { ...route.options, percentage } }, { replace: true });
+  };
+
+  const setBandLayout = (layout: BandLayout) => {
+    navigate({ ...route, options: { ...route.options, layout } }, { replace: true });
+  };
+
+  const setExtractor = (choice: ViewOptions['extractor']) => {
+    navigate({ ...route, options: { ...route.options, extractor: choice } }, { replace: true });
+  };
+
+  const setMetric = (next: ColorMetric) => {
+    navigate({ ...route, options: { ...route.options, metric: next } }, { replace: true });
+  };
+
+  const setTuning = (next: Tuning, nextPreset: string | null) => {
+    navigate({ ...route, options: { ...route.options, tuning: next, preset: nextPreset } }, { replace: true });
+  };
+
+  // Written into exports so the palette can be reproduced
+  const provenance = { extractor, preset, tuning };
 
-    return 'Other'; // Fallback label
+  // Name used for exported palettes and themes
+  const exportTitle = viewedProject && viewedTokenId !== null
+    ? getTokenLabel(viewedProject, viewedTokenId)
+    : localFileName?.replace(/\.[^.]+$/, '') ?? null;
+
+  // Material theme seeded from the artwork; its primary palette becomes the app's brand color
+  const materialTheme = useMemo(() => (analysis ? buildMaterialTheme(getSeedColor(analysis)) : null), [analysis]);
+  const chakraTheme = useMemo(() => extendTheme({
+    colors: { brand: applyMaterialTheme && materialTheme ? materialTheme.scale : baseTheme.colors.blue },
+  }), [applyMaterialTheme, materialTheme]);
+
+  const backgroundColor = analysis ? backgroundToCss(analysis.background) : '#FFFFFF';
+  const backgroundGradient = analysis?.background.gradient;
+  const backgroundLabel = backgroundGradient
+    ? `${rgbToCss(backgroundGradient.from)} → ${rgbToCss(backgroundGradient.to)}`
+    : analysis ? rgbToCss(analysis.background.rgb) : backgroundColor;
+  // In coverage mode each color's percentage is its share of the whole canvas
+  const keyColors = (analysis?.keyColors ?? []).map(color => (
+    percentageMode === 'coverage' ? { ...color, percentage: color.coverage } : color
+  ));
+
+  // Swatch clicks add or remove a color from the highlight selection
+  const toggleSelectedColor = (index: number) => {
+    setSelectedColors(prev => (
+      prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]
+    ));
   };
 
+  // Open a gallery tile in the detail layout
+  const selectToken = (tokenId: number) => openToken(String(tokenId));
+
   return (
-    <ChakraProvider>
+    <ChakraProvider theme={chakraTheme}>
       <Box minH="100vh" bg="gray.50" py={8}>
         <Container maxW="container.xl">
           <Grid templateColumns={{ base: "1fr", md: "350px 1fr" }} gap={8}>
@@ -467,6 +515,43 @@ function App() {
                 <Heading as="h1" size="lg" mb={6} color="gray.700">
                   Meridian Art Viewer
                 </Heading>
+                <ButtonGroup size="sm" isAttached variant="outline" w="100%" mb={4}>
+                  <Button
+                    flex="1"
+                    isActive={view === 'viewer'}
+                    onClick={() => setView('viewer')}
+                  >
+                    Viewer
+                  </Button>
+                  <Button
+                    flex="1"
+                    isActive={view === 'gallery'}
+                    onClick={() => setView('gallery')}
+                  >
+                    Gallery
+                  </Button>
+                  <Button
+                    flex="1"
+                    isActive={view === 'search'}
+                    onClick={() => setView('search')}
+                  >
+                    Search
+                  </Button>
+                  <Button
+                    flex="1"
+                    isActive={view === 'compare'}
+                    onClick={() => setView('compare')}
+                  >
+                    Compare
+                  </Button>
+                  <Button
+                    flex="1"
+                    isActive={view === 'stats'}
+                    onClick={() => setView('stats')}
+                  >
+                    Stats
+                  </Button>
+                </ButtonGroup>
                 <Box 
                   bg="white" 
                   p={6} 
@@ -475,8 +560,20 @@ function App() {
                   border="1px"
                   borderColor="gray.100"
                 >
+                  <Select
+                    aria-label="Project"
+                    value={project.slug}
+                    onChange={(e) => setProject(e.target.value)}
+                    mb={4}
+                  >
+                    {PROJECTS.map(p => (
+                      <option key={p.slug} value={p.slug}>
+                        {p.name} — {p.artist}
+                      </option>
+                    ))}
+                  </Select>
                   <Text mb={4} color="gray.600" fontSize="sm">
-                    Enter an artwork ID between 0 and 999 to view the Meridian artwork and its color palette.
+                    Enter an artwork ID between 0 and {project.tokenCount - 1} to view the {project.name} artwork and its color palette.
                   </Text>
                   <Input
                     placeholder="Enter artwork ID"
@@ -484,44 +581,173 @@ function App() {
                     onChange={(e) => setArtworkId(e.target.value)}
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
-                        fetchArtwork();
+                        openToken(artworkId);
                       }
                     }}
                     size="lg"
                     type="number"
                     min={0}
-                    max={999}
+                    max={project.tokenCount - 1}
                     bg="white"
                     boxShadow="sm"
                     mb={4}
                   />
                   <Button
-                    onClick={() => {
-                      setLoading(true);
-                      fetchArtwork().finally(() => setLoading(false));
-                    }}
+                    onClick={() => openToken(artworkId)}
                     size="lg"
-                    colorScheme="blue"
+                    colorScheme="brand"
                     w="100%"
                     boxShadow="sm"
                     isLoading={loading}
-                    mb={6}
+                    mb={3}
                   >
                     View Artwork
                   </Button>
+                  <ButtonGroup size="sm" isAttached variant="outline" w="100%" mb={2}>
+                    <Button
+                      flex="1"
+                      onClick={() => stepToken(-1)}
+                      isDisabled={currentTokenId === null}
+                      title="Previous token (←)"
+                    >
+                      ← Previous
+                    </Button>
+                    <Button flex="1" onClick={openRandomToken}>
+                      Random
+                    </Button>
+                    <Button
+                      flex="1"
+                      onClick={() => stepToken(1)}
+                      isDisabled={currentTokenId === null}
+                      title="Next token (→)"
+                    >
+                      Next →
+                    </Button>
+                  </ButtonGroup>
+                  <Flex gap={2} mb={3}>
+                    <Button
+                      size="sm"
+                      flex="1"
+                      variant={slideshow ? 'solid' : 'outline'}
+                      colorScheme={slideshow ? 'brand' : undefined}
+                      onClick={() => {
+                        if (!slideshow && view !== 'viewer') setView('viewer');
+                        setSlideshow(!slideshow);
+                      }}
+                      isDisabled={!slideshow && currentTokenId === null}
+                    >
+                      {slideshow ? 'Pause Slideshow' : 'Play Slideshow'}
+                    </Button>
+                    <Select
+                      size="sm"
+                      w="90px"
+                      aria-label="Slideshow interval"
+                      value={slideshowInterval}
+                      onChange={(e) => setSlideshowInterval(Number(e.target.value))}
+                    >
+                      {SLIDESHOW_INTERVALS.map(seconds => (
+                        <option key={seconds} value={seconds}>
+                          {seconds} s
+                        </option>
+                      ))}
+                    </Select>
+                  </Flex>
+                  <Button
+                    onClick={() => fileInputRef.current?.click()}
+                    variant="outline"
+                    w="100%"
+                    mb={2}
+                  >
+                    Open Image…
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    hidden
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) openLocalImage(file);
+                      // Allow picking the same file again
+                      e.target.value = '';
+                    }}
+                  />
+                  <Text fontSize="xs" color="gray.500" textAlign="center">
+                    You can also drop or paste an image
+                  </Text>
 
-                  {artworkId && (
+                  {localFileName ? (
+                    <Text mt={4} fontSize="sm" color="gray.500" textAlign="center" noOfLines={1}>
+                      Viewing {localFileName}
+                    </Text>
+                  ) : artworkId && (
                     <Text mt={4} fontSize="sm" color="gray.500" textAlign="center">
-                      Viewing Meridian #{artworkId.padStart(3, '0')}
+                      Viewing {getTokenLabel(project, artworkId)}
                     </Text>
                   )}
                 </Box>
+                <AdvancedSettings
+                  tuning={tuning}
+                  preset={preset}
+                  onChange={setTuning}
+                  metric={metric}
+                  onMetricChange={setMetric}
+                />
+                <CacheSettings
+                  cacheImages={cacheImages}
+                  onCacheImagesChange={setCacheImages}
+                  revision={sessionAnalyses}
+                />
               </Box>
             </GridItem>
 
             {/* Right Column - Original and Geometrized Artworks */}
-            <GridItem>
-              {artworkUrl ? (
+            <GridItem
+              position="relative"
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+              }}
+              onDrop={dropImage}
+            >
+              {dragging && (
+                <Flex
+                  position="absolute"
+                  inset={0}
+                  zIndex={1}
+                  align="center"
+                  justify="center"
+                  bg="whiteAlpha.800"
+                  border="2px dashed"
+                  borderColor="brand.400"
+                  borderRadius="lg"
+                  pointerEvents="none"
+                >
+                  <Text color="brand.500" fontWeight="medium">
+                    Drop an image to analyze its palette
+                  </Text>
+                </Flex>
+              )}
+              {view === 'gallery' ? (
+                <Gallery project={project} sessionAnalyses={sessionAnalyses} onSelect={selectToken} />
+              ) : view === 'search' ? (
+                <ColorSearch project={project} sessionAnalyses={sessionAnalyses} onSelect={selectToken} />
+              ) : view === 'stats' ? (
+                <StatsDashboard project={project} sessionAnalyses={sessionAnalyses} onSelect={selectToken} />
+              ) : view === 'compare' ? (
+                <CompareView
+                  project={project}
+                  tokens={route.tokens}
+                  onTokensChange={setCompareTokens}
+                  sessionAnalyses={sessionAnalyses}
+                  onAnalyzed={addSessionAnalysis}
+                  onSelect={selectToken}
+                />
+              ) : artworkUrl ? (
                 <Box>
                   {/* Original Artwork Section */}
                   <Box
@@ -536,24 +762,85 @@ function App() {
                     <Grid templateColumns={{ base: "1fr", lg: "3fr 1fr" }} gap={6} p={6}>
                       {/* Original Image */}
                       <Box>
-                        <ChakraImage
+                        <ArtworkHighlight
                           src={artworkUrl}
-                          alt={`Meridian Artwork #${artworkId}`}
-                          w="100%"
-                          h="auto"
-                          objectFit="contain"
-                          borderRadius="md"
-                          crossOrigin="anonymous"
+                          alt={viewedProject && viewedTokenId !== null ? getTokenLabel(viewedProject, viewedTokenId) : localFileName ?? 'Artwork'}
+                          pixels={pixels}
+                          analysis={analysis}
+                          selected={selectedColors}
+                          metric={metric}
+                          tolerance={highlightTolerance}
                         />
+                        {progress && (
+                          <Box mt={4}>
+                            <Text fontSize="xs" color="gray.500" mb={1}>
+                              {ANALYSIS_STAGE_LABELS[progress.stage]}…
+                            </Text>
+                            <Progress value={progress.progress * 100} size="xs" colorScheme="brand" borderRadius="full" />
+                          </Box>
+                        )}
+                        {selectedColors.length > 0 && (
+                          <Flex align="center" gap={4} mt={4}>
+                            <Text fontSize="sm" color="gray.600" whiteSpace="nowrap">
+                              Tolerance: ΔE {highlightTolerance}
+                            </Text>
+                            <Slider
+                              min={2}
+                              max={50}
+                              step={1}
+                              value={highlightTolerance}
+                              onChange={setHighlightTolerance}
+                            >
+                              <SliderTrack>
+                                <SliderFilledTrack />
+                              </SliderTrack>
+                              <SliderThumb />
+                            </Slider>
+                            <Button size="sm" variant="ghost" onClick={() => setSelectedColors([])}>
+                              Clear
+                            </Button>
+                          </Flex>
+                        )}
                       </Box>
 
                       {/* Color Swatches */}
                       <Box>
+                        {/* Palette Backend */}
+                        <Flex justify="space-between" align="center" gap={2} mb={4}>
+                          <Text fontSize="sm" color="gray.600">
+                            Extractor
+                          </Text>
+                          <Select
+                            size="xs"
+                            w="auto"
+                            aria-label="Palette extractor"
+                            value={extractorChoice}
+                            onChange={(e) => setExtractor(e.target.value as ViewOptions['extractor'])}
+                          >
+                            {EXTRACTORS.map(({ id, name }) => (
+                              <option key={id} value={id}>
+                                {name}
+                              </option>
+                            ))}
+                            <option value="all">All, side by side</option>
+                          </Select>
+                        </Flex>
+
                         {/* Background Color */}
                         <Box mb={4}>
-                          <Text fontSize="sm" color="gray.600" mb={2}>
-                            Background Color
-                          </Text>
+                          <Flex justify="space-between" align="center" mb={2}>
+                            <Text fontSize="sm" color="gray.600">
+                              Background Color
+                            </Text>
+                            {analysis && (
+                              <Badge
+                                colorScheme={BACKGROUND_BADGE_COLORS[analysis.background.kind]}
+                                title={`Confidence ${Math.round(analysis.background.confidence * 100)}%`}
+                              >
+                                {analysis.background.kind}
+                              </Badge>
+                            )}
+                          </Flex>
                           <Box
                             w="100%"
                             paddingBottom="20%"
@@ -579,121 +866,77 @@ function App() {
                             fontFamily="mono"
                             textAlign="center"
                           >
-                            {backgroundColor.toUpperCase()}
+                            {backgroundLabel.toUpperCase()}
                           </Text>
+                          {analysis && <CopyColorMenu rgb={analysis.background.rgb} />}
                         </Box>
 
                         <Divider my={6} />
 
                         {/* Color Visualization */}
                         <Box mb={6}>
-                          <Text fontSize="sm" color="gray.600" mb={2}>
-                            Color Visualization
-                          </Text>
-                          <Box
-                            w="100%"
-                            h="300px"
-                            position="relative"
-                            borderRadius="md"
-                            overflow="hidden"
-                            bg={backgroundColor}
-                            boxShadow="md"
-                            border="1px solid"
-                            borderColor="gray.200"
-                          >
-                            {(() => {
-                              // Filter out background color
-                              const nonBackgroundColors = keyColors.filter(color => color !== backgroundColor);
-                              const nonBackgroundPercentages = new Map(
-                                Array.from(colorPercentages.entries())
-                                  .filter(([color]) => color !== backgroundColor)
-                              );
-
-                              // Calculate total percentage and set minimum height
-                              const minHeightPercent = 10; // 10% minimum height
-                              const padding = 10; // 10% padding on each side
-                              const availableHeight = 100 - (2 * padding); // Available height after padding
-                              const totalPercentage = Array.from(nonBackgroundPercentages.values()).reduce((sum, val) => sum + val, 0);
-
-                              // First pass: Calculate initial heights with minimum enforcement
-                              const initialHeights = new Map(
-                                Array.from(nonBackgroundPercentages.entries()).map(([color, percentage]) => {
-                                  const heightPercent = (percentage / totalPercentage) * availableHeight;
-                                  return [color, Math.max(heightPercent, minHeightPercent)];
-                                })
-                              );
-
-                              // Calculate total height after minimum enforcement
-                              const totalHeight = Array.from(initialHeights.values()).reduce((sum, height) => sum + height, 0);
-
-                              // Second pass: Scale heights to fit available space
-                              const scalingFactor = availableHeight / totalHeight;
-                              const finalHeights = new Map(
-                                Array.from(initialHeights.entries()).map(([color, height]) => [
-                                  color,
-                                  height * scalingFactor
-                                ])
-                              );
-
-                              // Start at top padding
-                              let currentTop = padding;
-
-                              // Colors are ordered by their vertical position in the image
-                              return nonBackgroundColors.map((color, index) => {
-                                const height = finalHeights.get(color) || 0;
-                                const top = currentTop;
-                                currentTop += height;
-
-                                // Calculate the actual percentage for display
-                                const actualPercentage = Math.round((nonBackgroundPercentages.get(color) || 0) / totalPercentage * 100);
-
-                                return (
-                                  <Box
-                                    key={index}
-                                    position="absolute"
-                                    left={`${padding}%`}
-                                    width={`${100 - (2 * padding)}%`}
-                                    height={`${height}%`}
-                                    bg={color}
-                                    top={`${top}%`}
-                                    transform="auto"
-                                    translateY="0"
-                                    opacity={0.9}
-                                    transition="all 0.2s"
-                                    _hover={{
-                                      opacity: 1,
-                                      width: `${100 - (1.5 * padding)}%`,
-                                      left: `${padding * 0.75}%`,
-                                    }}
-                                  >
-                                    <Box
-                                      position="absolute"
-                                      right="0"
-                                      top="50%"
-                                      transform="translateY(-50%)"
-                                      bg="rgba(0,0,0,0.6)"
-                                      color="white"
-                                      fontSize="xs"
-                                      px={2}
-                                      py={1}
-                                      borderRadius="md"
-                                      opacity={0}
-                                      _groupHover={{ opacity: 1 }}
-                                    >
-                                      {actualPercentage}%
-                                    </Box>
-                                  </Box>
-                                );
-                              });
-                            })()}
-                          </Box>
+                          <Flex justify="space-between" align="center" mb={2}>
+                            <Text fontSize="sm" color="gray.600">
+                              Color Visualization
+                            </Text>
+                            <ButtonGroup size="xs" isAttached variant="outline">
+                              <Button
+                                isActive={bandLayout === 'position'}
+                                onClick={() => setBandLayout('position')}
+                                title="Order bands by the mean position of matching pixels"
+                              >
+                                Position
+                              </Button>
+                              <Button
+                                isActive={bandLayout === 'centroid'}
+                                onClick={() => setBandLayout('centroid')}
+                                title="Order bands by the centroid of each color's assigned pixels"
+                              >
+                                Centroid
+                              </Button>
+                              <Button
+                                isActive={bandLayout === 'extent'}
+                                onClick={() => setBandLayout('extent')}
+                                title="Place bands over the rows each color actually spans"
+                              >
+                                Extent
+                              </Button>
+                            </ButtonGroup>
+                          </Flex>
+                          <ColorStack
+                            keyColors={orderKeyColors(keyColors, bandLayout)}
+                            backgroundColor={backgroundColor}
+                            height="300px"
+                            normalizeLabels={percentageMode === 'legacy'}
+                            layout={bandLayout === 'extent' ? 'extent' : 'stack'}
+                            minBandHeight={tuning.minBandHeight}
+                            padding={tuning.stackPadding}
+                          />
                         </Box>
 
                         {/* Key Colors */}
                         <Box>
-                          <Text fontSize="sm" color="gray.600" mb={2}>
-                            Key Colors
-                          </Text>
+                          <Flex justify="space-between" align="center" mb={2}>
+                            <Text fontSize="sm" color="gray.600">
+                              Key Colors
+                            </Text>
+                            <ButtonGroup size="xs" isAttached variant="outline">
+                              <Button
+                                isActive={percentageMode === 'legacy'}
+                                onClick={() => setPercentageMode('legacy')}
+                                title="Share of the Vibrant palette population"
+                              >
+                                Legacy
+                              </Button>
+                              <Button
+                                isActive={percentageMode === 'coverage'}
+                                onClick={() => setPercentageMode('coverage')}
+                                title="Share of the canvas assigned to each color"
+                              >
+                                Coverage
+                              </Button>
+                            </ButtonGroup>
+                          </Flex>
                           <Grid templateColumns="repeat(2, 1fr)" gap={4}>
                             {keyColors.map((color, index) => (
                               <Box key={index}>
@@ -704,16 +947,21 @@ function App() {
                                   mb={2}
                                 >
                                   <Box
+                                    as="button"
+                                    aria-pressed={selectedColors.includes(index)}
+                                    title="Highlight where this color appears"
+                                    onClick={() => toggleSelectedColor(index)}
                                     position="absolute"
                                     top={0}
                                     left={0}
                                     right={0}
                                     bottom={0}
                                     borderRadius="md"
-                                    bg={color}
+                                    bg={color.hex}
                                     boxShadow="md"
-                                    border="1px solid"
-                                    borderColor="gray.200"
+                                    border={selectedColors.includes(index) ? '3px solid' : '1px solid'}
+                                    borderColor={selectedColors.includes(index) ? 'brand.400' : 'gray.200'}
+                                    cursor="pointer"
                                   />
                                 </Box>
                                 <Text
@@ -723,7 +971,7 @@ function App() {
                                   textAlign="center"
                                   mb={1}
                                 >
-                                  {getColorLabel(color)}
+                                  {color.label}
                                 </Text>
                                 <Text
                                   fontSize="xs"
@@ -732,36 +980,99 @@ function App() {
                                   textAlign="center"
                                   mb={1}
                                 >
-                                  {color.toUpperCase()}
+                                  {color.hex.toUpperCase()}
                                 </Text>
                                 <Text
                                   fontSize="xs"
                                   color="gray.500"
                                   textAlign="center"
                                 >
-                                  {Math.round(colorPercentages.get(color) || 0)}%
+                                  {Math.round(color.percentage)}%
                                 </Text>
+                                {color.spatial && (
+                                  <Text
+                                    fontSize="xs"
+                                    color="gray.400"
+                                    textAlign="center"
+                                    title="Centroid, and the rows from first to last pixel"
+                                  >
+                                    ({Math.round(color.spatial.centroid.x * 100)}, {Math.round(color.spatial.centroid.y * 100)}) · {Math.round(color.spatial.rows.min * 100)}–{Math.round(color.spatial.rows.max * 100)}%
+                                  </Text>
+                                )}
+                                <CopyColorMenu rgb={color.rgb} />
                               </Box>
                             ))}
                           </Grid>
+                          {percentageMode === 'coverage' && analysis && (
+                            <Text fontSize="xs" color="gray.500" textAlign="center" mt={4}>
+                              Background {Math.round(analysis.coverage.background)}% · Unassigned {Math.round(analysis.coverage.unassigned)}%
+                            </Text>
+                          )}
                         </Box>
                       </Box>
                     </Grid>
 
+                    {viewedProject && viewedTokenId !== null && (
+                      <TokenTraits project={viewedProject} tokenId={viewedTokenId} analysis={analysis} />
+                    )}
+
                     <Box borderTop="1px" borderColor="gray.100" p={6}>
                       <Flex justify="space-between" align="center">
-                        <Link
-                          href={`https://www.artblocks.io/token/0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270/163000${artworkId.padStart(3, '0')}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          color="blue.500"
-                          fontSize="sm"
-                        >
-                          View on Art Blocks →
-                        </Link>
+                        {localFileName && (
+                          <Text fontSize="sm" color="gray.500" noOfLines={1} title={localFileName}>
+                            {localFileName}
+                          </Text>
+                        )}
+                        {viewedProject && viewedTokenId !== null && (
+                          <Link
+                            href={getTokenUrl(viewedProject, viewedTokenId)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            color="brand.500"
+                            fontSize="sm"
+                          >
+                            View on Art Blocks →
+                          </Link>
+                        )}
+                        {analysis && exportTitle && (
+                          <PaletteExportMenu analysis={analysis} title={exportTitle} provenance={provenance} />
+                        )}
                       </Flex>
                     </Box>
                   </Box>
+
+                  {analysis && viewedProject && viewedTokenId !== null && (
+                    <SimilarArtworks
+                      project={viewedProject}
+                      tokenId={viewedTokenId}
+                      analysis={analysis}
+                      sessionAnalyses={sessionAnalyses}
+                      onSelect={selectToken}
+                    />
+                  )}
+
+                  {analysis && <GeometrizePanel analysis={analysis} pixels={pixels} title={exportTitle} />}
+
+                  {analysis && <AccessibilityPanel analysis={analysis} pixels={pixels} />}
+
+                  {materialTheme && (
+                    <MaterialThemePanel
+                      theme={materialTheme}
+                      title={exportTitle}
+                      applied={applyMaterialTheme}
+                      onAppliedChange={setApplyMaterialTheme}
+                    />
+                  )}
+
+                  {extractorChoice === 'all' && (
+                    <ExtractorComparison
+                      pixels={pixels}
+                      analysis={analysis}
+                      options={analysisOptions}
+                      extractor={extractor}
+                      onUse={setExtractor}
+                    />
+                  )}
                 </Box>
               ) : (
                 <Flex 
@@ -775,7 +1086,7 @@ function App() {
                   p={8}
                 >
                   <Text color="gray.500">
-                    Enter an artwork ID to view the Meridian artwork
+                    Enter an artwork ID to view the {project.name} artwork, or drop, paste or open an image of your own
                   </Text>
                 </Flex>
               )}
@@ -0,0 +1,45 @@
+import { buildContrastMatrix, contrastRatio, getWcagLevel } from './contrast';
+import { findCvdConfusions, simulateCvd, simulateCvdPixels } from './cvd';
+
+const black = { r: 0, g: 0, b: 0 };
+const white = { r: 255, g: 255, b: 255 };
+const red = { r: 180, g: 90, b: 60 };
+const green = { r: 110, g: 120, b: 60 };
+const blue = { r: 30, g: 60, b: 200 };
+
+test('computes WCAG contrast ratios and levels', () => {
+  expect(contrastRatio(black, white)).toBeCloseTo(21);
+  expect(contrastRatio(white, black)).toBeCloseTo(21);
+  expect(contrastRatio(red, red)).toBe(1);
+  expect(getWcagLevel(7)).toBe('AAA');
+  expect(getWcagLevel(4.6)).toBe('AA');
+  expect(getWcagLevel(3.2)).toBe('AA Large');
+  expect(getWcagLevel(2.9)).toBe('Fail');
+
+  const matrix = buildContrastMatrix([black, white, red]);
+  expect(matrix[0][1]).toBeCloseTo(21);
+  expect(matrix[2][0]).toBeCloseTo(matrix[0][2]);
+});
+
+test('simulates achromatopsia as gray and keeps neutrals unchanged', () => {
+  const gray = simulateCvd(red, 'achromatopsia');
+  expect(gray.r).toBe(gray.g);
+  expect(gray.g).toBe(gray.b);
+  expect(simulateCvd(white, 'protanopia')).toEqual(white);
+  expect(simulateCvd(black, 'tritanopia')).toEqual(black);
+});
+
+test('simulates whole images pixel by pixel, keeping alpha', () => {
+  const data = new Uint8ClampedArray([...Object.values(red), 255, ...Object.values(blue), 128]);
+  const simulated = simulateCvdPixels({ width: 2, height: 1, data }, 'deuteranopia');
+  expect(Array.from(simulated.data.slice(0, 3))).toEqual(Object.values(simulateCvd(red, 'deuteranopia')));
+  expect(simulated.data[7]).toBe(128);
+});
+
+test('flags a red and green of similar lightness as confusable, but not for tritanopia', () => {
+  const confusions = findCvdConfusions([red, green, blue]);
+  const types = confusions.filter(c => c.a === 0 && c.b === 1).map(c => c.type);
+  expect(types).toEqual(expect.arrayContaining(['protanopia', 'deuteranopia']));
+  expect(types).not.toContain('tritanopia');
+  expect(confusions.every(c => c.simulated < c.original)).toBe(true);
+});
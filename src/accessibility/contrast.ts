@@ -0,0 +1,26 @@
+import { getLuminance, RGB } from '../analysis';
+
+export type WcagLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+// Minimum contrast ratios from WCAG 2.x success criteria 1.4.3 and 1.4.6
+const WCAG_LEVELS: Array<{ level: WcagLevel; ratio: number }> = [
+  { level: 'AAA', ratio: 7 },
+  { level: 'AA', ratio: 4.5 },
+  // Also the AAA threshold for large text and the minimum for UI components
+  { level: 'AA Large', ratio: 3 },
+];
+
+// Function to compute the WCAG contrast ratio (1-21) between two colors
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const la = getLuminance(a.r, a.g, a.b);
+  const lb = getLuminance(b.r, b.g, b.b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+// Function to find the highest WCAG level a contrast ratio passes
+export const getWcagLevel = (ratio: number): WcagLevel =>
+  WCAG_LEVELS.find(level => ratio >= level.ratio)?.level ?? 'Fail';
+
+// Function to compute the contrast ratio between every pair of colors, indexed [i][j]
+export const buildContrastMatrix = (colors: RGB[]) =>
+  colors.map(a => colors.map(b => contrastRatio(a, b)));
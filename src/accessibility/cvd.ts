@@ -0,0 +1,103 @@
+import { colorDifference, linearToSrgb, PixelData, RGB, srgbToLinear } from '../analysis';
+
+export type CvdType = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const CVD_TYPES: { [type in CvdType]: string } = {
+  protanopia: 'Protanopia',
+  deuteranopia: 'Deuteranopia',
+  tritanopia: 'Tritanopia',
+  achromatopsia: 'Achromatopsia',
+};
+
+// Colors closer than this after simulation are hard to tell apart
+export const CONFUSION_THRESHOLD = 10;
+
+type Matrix = [number, number, number][];
+
+// Machado, Oliveira & Fernandes (2009) matrices at full severity, applied to linear RGB.
+// Achromatopsia keeps only the luminance.
+const CVD_MATRICES: { [type in CvdType]: Matrix } = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+// Linear values for every 8-bit channel value, so whole images convert quickly
+const LINEAR = Array.from({ length: 256 }, (_, v) => srgbToLinear(v));
+
+const clampUnit = (v: number) => Math.max(0, Math.min(1, v));
+
+// Function to simulate how a color looks with a color vision deficiency
+export const simulateCvd = ({ r, g, b }: RGB, type: CvdType): RGB => {
+  const linear = [LINEAR[r], LINEAR[g], LINEAR[b]];
+  const [sr, sg, sb] = CVD_MATRICES[type].map(row =>
+    clampUnit(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+  );
+  return { r: linearToSrgb(sr), g: linearToSrgb(sg), b: linearToSrgb(sb) };
+};
+
+// Function to simulate a color vision deficiency over a whole image. Artworks reuse
+// a limited set of colors, so each distinct color is converted once.
+export const simulateCvdPixels = ({ width, height, data }: PixelData, type: CvdType): PixelData => {
+  const out = new Uint8ClampedArray(data.length);
+  const seen = new Map<number, RGB>();
+  for (let i = 0; i < data.length; i += 4) {
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let simulated = seen.get(key);
+    if (!simulated) {
+      simulated = simulateCvd({ r: data[i], g: data[i + 1], b: data[i + 2] }, type);
+      seen.set(key, simulated);
+    }
+    out[i] = simulated.r;
+    out[i + 1] = simulated.g;
+    out[i + 2] = simulated.b;
+    out[i + 3] = data[i + 3];
+  }
+  return { width, height, data: out };
+};
+
+export interface CvdConfusion {
+  type: CvdType;
+  // Indices into the colors passed to `findCvdConfusions`
+  a: number;
+  b: number;
+  // Perceptual difference before and after simulation
+  original: number;
+  simulated: number;
+}
+
+// Function to find pairs of colors that are distinct with typical vision but
+// become hard to tell apart under a color vision deficiency
+export const findCvdConfusions = (colors: RGB[], threshold = CONFUSION_THRESHOLD) => {
+  const confusions: CvdConfusion[] = [];
+  (Object.keys(CVD_MATRICES) as CvdType[]).forEach(type => {
+    const simulated = colors.map(color => simulateCvd(color, type));
+    colors.forEach((color, a) => {
+      for (let b = a + 1; b < colors.length; b++) {
+        const original = colorDifference(color, colors[b]);
+        const after = colorDifference(simulated[a], simulated[b]);
+        if (original >= threshold && after < threshold) {
+          confusions.push({ type, a, b, original, simulated: after });
+        }
+      }
+    });
+  });
+  return confusions;
+};
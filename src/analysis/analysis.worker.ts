@@ -0,0 +1,32 @@
+import { analyzeArtwork } from './analyzeArtwork';
+import { AnalysisOptions } from './options';
+import { AnalysisProgress, ArtworkAnalysis, PixelData } from './types';
+
+export interface AnalysisRequest {
+  pixels: PixelData;
+  options: Partial<AnalysisOptions>;
+}
+
+export type AnalysisResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  // The pixel buffer is transferred back so the page can keep using it
+  | { type: 'result'; analysis: ArtworkAnalysis; pixels: PixelData }
+  | { type: 'error'; message: string };
+
+// The dom lib types `self` as a window, so describe the worker scope we use
+const scope = globalThis as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (message: AnalysisResponse, transfer?: Transferable[]) => void;
+};
+
+// Each worker runs a single job; the page terminates it to cancel
+scope.onmessage = async ({ data: { pixels, options } }) => {
+  try {
+    const analysis = await analyzeArtwork(pixels, options, progress => {
+      scope.postMessage({ type: 'progress', progress });
+    });
+    scope.postMessage({ type: 'result', analysis, pixels }, [pixels.data.buffer]);
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
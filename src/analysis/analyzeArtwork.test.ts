@@ -0,0 +1,104 @@
+import { analyzeArtwork } from './analyzeArtwork';
+import { colorDifference } from './colorMath';
+import { EXTRACTOR_IDS } from './extractors';
+import { PixelData, RGB } from './types';
+
+// Build a canvas of horizontal bands, each a solid color covering a range of rows
+const makeBands = (width: number, height: number, bands: Array<{ rgb: RGB, from: number, to: number }>, bg: RGB): PixelData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const band = bands.find(b => y >= b.from && y < b.to);
+    const { r, g, b } = band ? band.rgb : bg;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const cream = { r: 240, g: 228, b: 200 };
+const teal = { r: 20, g: 140, b: 140 };
+const red = { r: 200, g: 40, b: 30 };
+
+test('orders key colors top to bottom and excludes the background', async () => {
+  const pixels = makeBands(120, 120, [
+    { rgb: red, from: 20, to: 50 },
+    { rgb: teal, from: 70, to: 100 },
+  ], cream);
+
+  const analysis = await analyzeArtwork(pixels);
+
+  expect(analysis.background.hex).toBe('#f0e4c8');
+  expect(analysis.background.kind).toBe('solid');
+  expect(analysis.keyColors.length).toBeGreaterThan(0);
+  const positions = analysis.keyColors.map(c => c.verticalPosition);
+  expect(positions).toEqual([...positions].sort((a, b) => a - b));
+  const total = analysis.keyColors.reduce((sum, c) => sum + c.percentage, 0);
+  expect(total).toBeCloseTo(100);
+});
+
+test('reports area coverage that sums to 100% with the background', async () => {
+  const pixels = makeBands(100, 100, [
+    { rgb: red, from: 10, to: 30 },
+    { rgb: teal, from: 60, to: 90 },
+  ], cream);
+
+  const analysis = await analyzeArtwork(pixels);
+
+  const keyCoverage = analysis.keyColors.reduce((sum, c) => sum + c.coverage, 0);
+  expect(keyCoverage + analysis.coverage.background + analysis.coverage.unassigned).toBeCloseTo(100);
+  expect(analysis.coverage.background).toBeCloseTo(50);
+  expect(keyCoverage).toBeCloseTo(50);
+});
+
+test('records the rows each key color spans', async () => {
+  const pixels = makeBands(100, 100, [
+    { rgb: red, from: 10, to: 30 },
+    { rgb: teal, from: 60, to: 90 },
+  ], cream);
+
+  const analysis = await analyzeArtwork(pixels);
+  const extents = analysis.keyColors
+    .filter(c => c.spatial && c.coverage > 10)
+    .map(c => [c.spatial!.rows.min, c.spatial!.rows.max].map(v => Math.round(v * 99)));
+
+  expect(extents).toEqual([[10, 29], [60, 89]]);
+});
+
+test('adds black when it covers a significant share of the canvas', async () => {
+  const pixels = makeBands(100, 100, [{ rgb: { r: 0, g: 0, b: 0 }, from: 80, to: 100 }], cream);
+
+  const analysis = await analyzeArtwork(pixels);
+
+  expect(analysis.black.significant).toBe(true);
+  expect(analysis.black.percentage).toBeCloseTo(20);
+  expect(analysis.keyColors.map(c => c.label)).toContain('Black');
+  expect(analysis.white.significant).toBe(false);
+});
+
+test('does not modify the caller pixel buffer', async () => {
+  const pixels = makeBands(60, 60, [{ rgb: red, from: 10, to: 30 }], { r: 255, g: 255, b: 255 });
+  const before = Array.from(pixels.data);
+
+  await analyzeArtwork(pixels);
+
+  expect(Array.from(pixels.data)).toEqual(before);
+});
+
+test.each(EXTRACTOR_IDS)('the %s extractor finds the colors of every band', async extractor => {
+  const pixels = makeBands(120, 120, [
+    { rgb: red, from: 20, to: 50 },
+    { rgb: teal, from: 70, to: 100 },
+  ], cream);
+
+  const analysis = await analyzeArtwork(pixels, { extractor });
+
+  [red, teal].forEach(band => {
+    expect(analysis.keyColors.some(c => colorDifference(c.rgb, band) < 10)).toBe(true);
+  });
+  expect(analysis.keyColors.every(c => c.hex === c.hex.toLowerCase())).toBe(true);
+});
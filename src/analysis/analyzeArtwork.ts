@@ -0,0 +1,219 @@
+import { backgroundDifference, detectBackground } from './background';
+import { rgbToHex } from './color';
+import { assignPixels } from './coverage';
+import { colorDifference, ColorMetric } from './colorMath';
+import { getExtractor } from './extractors';
+import { AnalysisOptions, DEFAULT_ANALYSIS_OPTIONS } from './options';
+import { AnalysisProgress, AnalysisStage, ArtworkAnalysis, KeyColor, PixelData, RGB } from './types';
+
+// Share of the total work at which each stage starts, for progress reporting
+const STAGE_STARTS: { [stage in AnalysisStage]: number } = {
+  monochrome: 0,
+  background: 0.1,
+  palette: 0.15,
+  positions: 0.4,
+  coverage: 0.75,
+};
+
+// Function to find the mean vertical position of pixels close to a color
+export const getColorVerticalPosition = (
+  pixels: PixelData,
+  targetRgb: RGB,
+  metric: ColorMetric = DEFAULT_ANALYSIS_OPTIONS.metric,
+  threshold = DEFAULT_ANALYSIS_OPTIONS.positionMatch,
+  stride = DEFAULT_ANALYSIS_OPTIONS.positionStride
+) => {
+  const { width, height, data } = pixels;
+  let totalY = 0;
+  let count = 0;
+
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      const i = (y * width + x) * 4;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+
+      if (colorDifference({ r, g, b }, targetRgb, metric) < threshold) {
+        totalY += y;
+        count++;
+      }
+    }
+  }
+
+  return count > 0 ? totalY / count / height : 0.5;
+};
+
+// Function to fold near-identical swatches into the most populous one. Positions
+// are averaged by population so the merged color stays where its pixels are.
+export const mergeDuplicateColors = <T extends { rgb: RGB, population: number, verticalPosition: number }>(
+  colors: T[],
+  metric: ColorMetric,
+  threshold: number
+): T[] => {
+  const merged: T[] = [];
+
+  [...colors]
+    .sort((a, b) => b.population - a.population)
+    .forEach(color => {
+      const match = merged.find(kept => colorDifference(kept.rgb, color.rgb, metric) < threshold);
+      if (!match) {
+        merged.push({ ...color });
+        return;
+      }
+      const population = match.population + color.population;
+      if (population > 0) {
+        match.verticalPosition =
+          (match.verticalPosition * match.population + color.verticalPosition * color.population) / population;
+      }
+      match.population = population;
+    });
+
+  return merged;
+};
+
+// Analyze decoded pixels into background, key colors and black/white coverage.
+// Has no DOM or React dependencies so it runs the same in the browser, in a worker and in Node.
+export const analyzeArtwork = async (
+  pixels: PixelData,
+  options: Partial<AnalysisOptions> = {},
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<ArtworkAnalysis> => {
+  // `fraction` is how far into the stage we are, so long stages can report partial progress
+  const report = (stage: AnalysisStage, fraction = 0) => {
+    if (!onProgress) return;
+    const stages = Object.keys(STAGE_STARTS) as AnalysisStage[];
+    const next = STAGE_STARTS[stages[stages.indexOf(stage) + 1]] ?? 1;
+    onProgress({ stage, progress: STAGE_STARTS[stage] + (next - STAGE_STARTS[stage]) * fraction });
+  };
+
+  const {
+    extractor,
+    metric,
+    backgroundTolerance,
+    backgroundSeparation,
+    positionMatch,
+    duplicateMerge,
+    assignmentTolerance,
+    whiteThreshold,
+    blackThreshold,
+    significantShare,
+    borderWidth,
+    positionStride
+  } = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
+  const { width, height, data } = pixels;
+
+  // Analyze the image for black and white pixels
+  report('monochrome');
+  let whitePixelCount = 0;
+  let blackPixelCount = 0;
+  const totalPixels = width * height;
+
+  // Track vertical positions for black and white
+  let whiteTotalY = 0;
+  let blackTotalY = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+
+      if (brightness >= whiteThreshold) {
+        whitePixelCount++;
+        whiteTotalY += y;
+      } else if (brightness <= blackThreshold) {
+        blackPixelCount++;
+        blackTotalY += y;
+      }
+    }
+  }
+
+  // Calculate black and white percentages and positions
+  const whitePercentage = totalPixels > 0 ? (whitePixelCount / totalPixels) * 100 : 0;
+  const blackPercentage = totalPixels > 0 ? (blackPixelCount / totalPixels) * 100 : 0;
+  const whitePosition = whitePixelCount > 0 ? whiteTotalY / whitePixelCount / height : 0;
+  const blackPosition = blackPixelCount > 0 ? blackTotalY / blackPixelCount / height : 0;
+
+  // Detect the background from the border
+  report('background');
+  const background = detectBackground(pixels, metric, backgroundTolerance, borderWidth);
+
+  // Get the palette from the selected backend
+  report('palette');
+  const swatches = await getExtractor(extractor).extract(pixels);
+
+  // Filter and process colors
+  const processedColors: Omit<KeyColor, 'percentage' | 'coverage' | 'spatial'>[] = [];
+  swatches.forEach(({ rgb, label, population }, index) => {
+    report('positions', index / swatches.length);
+    if (backgroundDifference(rgb, background, metric) <= backgroundSeparation) return;
+    processedColors.push({
+      hex: rgbToHex(rgb),
+      rgb,
+      label,
+      population,
+      verticalPosition: getColorVerticalPosition(pixels, rgb, metric, positionMatch, positionStride)
+    });
+  });
+
+  // Add black if significant
+  if (blackPercentage >= significantShare) {
+    processedColors.push({
+      hex: '#000000',
+      rgb: { r: 0, g: 0, b: 0 },
+      label: 'Black',
+      population: blackPixelCount,
+      verticalPosition: blackPosition
+    });
+  }
+
+  // Add white if significant
+  if (whitePercentage >= significantShare) {
+    processedColors.push({
+      hex: '#FFFFFF',
+      rgb: { r: 255, g: 255, b: 255 },
+      label: 'White',
+      population: whitePixelCount,
+      verticalPosition: whitePosition
+    });
+  }
+
+  // Merge swatches that are perceptually the same color and sort by vertical position
+  const mergedColors = mergeDuplicateColors(processedColors, metric, duplicateMerge)
+    .sort((a, b) => a.verticalPosition - b.verticalPosition);
+
+  const totalPopulation = mergedColors.reduce((sum, c) => sum + c.population, 0);
+
+  // Assign every pixel to a key color, the background or nothing for true area coverage
+  report('coverage');
+  const assignment = assignPixels(pixels, mergedColors.map(c => c.rgb), background, metric, assignmentTolerance);
+  const toCoverage = (count: number) => (assignment.total > 0 ? (count / assignment.total) * 100 : 0);
+
+  return {
+    width,
+    height,
+    background,
+    keyColors: mergedColors.map((c, index) => ({
+      ...c,
+      percentage: totalPopulation > 0 ? (c.population / totalPopulation) * 100 : 0,
+      coverage: toCoverage(assignment.keyColors[index]),
+      spatial: assignment.spatial[index]
+    })),
+    coverage: {
+      background: toCoverage(assignment.background),
+      unassigned: toCoverage(assignment.unassigned)
+    },
+    black: {
+      pixelCount: blackPixelCount,
+      percentage: blackPercentage,
+      verticalPosition: blackPosition,
+      significant: blackPercentage >= significantShare
+    },
+    white: {
+      pixelCount: whitePixelCount,
+      percentage: whitePercentage,
+      verticalPosition: whitePosition,
+      significant: whitePercentage >= significantShare
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { backgroundToCss, detectBackground } from './background';
+import { PixelData, RGB } from './types';
+
+// Build a canvas where every pixel's color comes from a function of its position
+const makeImage = (width: number, height: number, colorAt: (x: number, y: number) => RGB): PixelData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { r, g, b } = colorAt(x, y);
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const cream = { r: 240, g: 228, b: 200 };
+const teal = { r: 20, g: 140, b: 140 };
+
+test('reports a solid background even when a shape touches a corner', () => {
+  const pixels = makeImage(100, 100, (x, y) => (x < 15 && y < 15 ? teal : cream));
+
+  const background = detectBackground(pixels, 'deltaE2000', 8);
+
+  expect(background.kind).toBe('solid');
+  expect(background.rgb).toEqual(cream);
+  expect(background.confidence).toBeGreaterThan(0.9);
+});
+
+test('fits a two-stop gradient when the border changes smoothly', () => {
+  const top = { r: 250, g: 200, b: 120 };
+  const bottom = { r: 60, g: 80, b: 160 };
+  const pixels = makeImage(100, 100, (_, y) => ({
+    r: Math.round(top.r + (bottom.r - top.r) * y / 99),
+    g: Math.round(top.g + (bottom.g - top.g) * y / 99),
+    b: Math.round(top.b + (bottom.b - top.b) * y / 99),
+  }));
+
+  const background = detectBackground(pixels, 'deltaE2000', 8);
+
+  expect(background.kind).toBe('gradient');
+  expect(background.gradient?.direction).toBe('vertical');
+  expect(background.gradient?.from).toEqual(top);
+  expect(background.gradient?.to).toEqual(bottom);
+  expect(backgroundToCss(background)).toBe('linear-gradient(to bottom, rgb(250,200,120), rgb(60,80,160))');
+});
+
+test('flags the background as uncertain when no mode or gradient explains the border', () => {
+  const pixels = makeImage(100, 100, x => (x < 50 ? cream : teal));
+
+  const background = detectBackground(pixels, 'deltaE2000', 8);
+
+  expect(background.kind).toBe('uncertain');
+  expect(background.confidence).toBeLessThan(0.7);
+});
@@ -0,0 +1,216 @@
+import { rgbToCss, rgbToHex } from './color';
+import { colorDifference, ColorMetric } from './colorMath';
+import { DEFAULT_ANALYSIS_OPTIONS } from './options';
+import { forEachPixelInRect } from './pixels';
+import { BackgroundEstimate, BackgroundGradient, PixelData, RGB } from './types';
+
+interface EdgeBin {
+  count: number;
+  // Channel sums, so each bin can report the mean of the pixels it holds
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Share of border pixels the dominant mode must cover to call the background solid
+const SOLID_SHARE = 0.7;
+// Share of border samples that must sit on the fitted line to call it a gradient
+const GRADIENT_FIT = 0.8;
+// Number of rows/columns sampled along each side when fitting a gradient
+const GRADIENT_SAMPLES = 64;
+
+// Function to get the border band width in pixels: `borderWidth` percent of the shorter side, at least 5px
+const getEdgeWidth = (width: number, height: number, borderWidth: number) =>
+  Math.max(5, Math.floor((Math.min(width, height) * borderWidth) / 100));
+
+const clampRgb = ({ r, g, b }: RGB): RGB => ({
+  r: Math.max(0, Math.min(255, Math.round(r))),
+  g: Math.max(0, Math.min(255, Math.round(g))),
+  b: Math.max(0, Math.min(255, Math.round(b))),
+});
+
+const mix = (from: RGB, to: RGB, t: number): RGB => ({
+  r: Math.round(from.r + (to.r - from.r) * t),
+  g: Math.round(from.g + (to.g - from.g) * t),
+  b: Math.round(from.b + (to.b - from.b) * t),
+});
+
+// Function to get edge histogram
+export const getEdgeHistogram = (pixels: PixelData, borderWidth = DEFAULT_ANALYSIS_OPTIONS.borderWidth) => {
+  const { width, height } = pixels;
+  const edgeWidth = getEdgeWidth(width, height, borderWidth);
+  const edges = [
+    // Top edge
+    [0, 0, width, edgeWidth],
+    // Right edge
+    [width - edgeWidth, 0, edgeWidth, height],
+    // Bottom edge
+    [0, height - edgeWidth, width, edgeWidth],
+    // Left edge
+    [0, 0, edgeWidth, height]
+  ];
+
+  // Build histogram
+  const histogram: { [key: string]: EdgeBin } = {};
+  edges.forEach(([x, y, w, h]) => {
+    forEachPixelInRect(pixels, x, y, w, h, (r, g, b) => {
+      // Quantize to reduce number of colors
+      const key = `${Math.floor(r/10)*10},${Math.floor(g/10)*10},${Math.floor(b/10)*10}`;
+
+      if (!histogram[key]) histogram[key] = { count: 0, r: 0, g: 0, b: 0 };
+      histogram[key].count++;
+      histogram[key].r += r;
+      histogram[key].g += g;
+      histogram[key].b += b;
+    });
+  });
+
+  return histogram;
+};
+
+// Function to find the most common border color, merging neighbouring bins that
+// are perceptually the same. Returns its mean color and share of the border.
+const findBorderMode = (histogram: { [key: string]: EdgeBin }, metric: ColorMetric, tolerance: number) => {
+  const bins = Object.values(histogram).map(bin => ({
+    count: bin.count,
+    rgb: {
+      r: Math.round(bin.r / bin.count),
+      g: Math.round(bin.g / bin.count),
+      b: Math.round(bin.b / bin.count)
+    }
+  }));
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return null;
+
+  const top = bins.reduce((best, bin) => (bin.count > best.count ? bin : best));
+  let count = 0, rSum = 0, gSum = 0, bSum = 0;
+  bins.forEach(bin => {
+    if (colorDifference(bin.rgb, top.rgb, metric) > tolerance) return;
+    count += bin.count;
+    rSum += bin.rgb.r * bin.count;
+    gSum += bin.rgb.g * bin.count;
+    bSum += bin.rgb.b * bin.count;
+  });
+
+  return {
+    rgb: { r: Math.round(rSum / count), g: Math.round(gSum / count), b: Math.round(bSum / count) },
+    share: count / total
+  };
+};
+
+// Function to fit a two-stop linear gradient to the border. A vertical gradient is
+// read from the left and right edges row by row, a horizontal one from the top
+// and bottom edges column by column. `fit` is the share of samples on the line.
+const fitGradient = (
+  pixels: PixelData,
+  direction: BackgroundGradient['direction'],
+  metric: ColorMetric,
+  tolerance: number,
+  borderWidth: number
+) => {
+  const { width, height } = pixels;
+  const edgeWidth = getEdgeWidth(width, height, borderWidth);
+  const length = direction === 'vertical' ? height : width;
+  const step = Math.max(1, Math.floor(length / GRADIENT_SAMPLES));
+  const samples: Array<{ t: number, rgb: RGB }> = [];
+
+  for (let p = 0; p < length; p += step) {
+    let rSum = 0, gSum = 0, bSum = 0, count = 0;
+    const visit = (r: number, g: number, b: number) => {
+      rSum += r;
+      gSum += g;
+      bSum += b;
+      count++;
+    };
+    if (direction === 'vertical') {
+      forEachPixelInRect(pixels, 0, p, edgeWidth, 1, visit);
+      forEachPixelInRect(pixels, width - edgeWidth, p, edgeWidth, 1, visit);
+    } else {
+      forEachPixelInRect(pixels, p, 0, 1, edgeWidth, visit);
+      forEachPixelInRect(pixels, p, height - edgeWidth, 1, edgeWidth, visit);
+    }
+    if (count === 0) continue;
+    samples.push({
+      t: length > 1 ? p / (length - 1) : 0,
+      rgb: { r: Math.round(rSum / count), g: Math.round(gSum / count), b: Math.round(bSum / count) }
+    });
+  }
+
+  if (samples.length < 2) return null;
+
+  // Least-squares line through each channel
+  const meanT = samples.reduce((sum, s) => sum + s.t, 0) / samples.length;
+  const varT = samples.reduce((sum, s) => sum + Math.pow(s.t - meanT, 2), 0);
+  const fitChannel = (channel: keyof RGB) => {
+    const mean = samples.reduce((sum, s) => sum + s.rgb[channel], 0) / samples.length;
+    const slope = samples.reduce((sum, s) => sum + (s.t - meanT) * (s.rgb[channel] - mean), 0) / varT;
+    return { at0: mean - slope * meanT, at1: mean + slope * (1 - meanT) };
+  };
+  const r = fitChannel('r');
+  const g = fitChannel('g');
+  const b = fitChannel('b');
+  const from = clampRgb({ r: r.at0, g: g.at0, b: b.at0 });
+  const to = clampRgb({ r: r.at1, g: g.at1, b: b.at1 });
+
+  const onLine = samples.filter(s => colorDifference(s.rgb, mix(from, to, s.t), metric) <= tolerance).length;
+  return { from, to, fit: onLine / samples.length };
+};
+
+// Detect the background from the image border: a solid color when one mode
+// dominates, a two-stop gradient when the border changes smoothly, otherwise
+// the dominant mode flagged as uncertain
+export const detectBackground = (
+  pixels: PixelData,
+  metric: ColorMetric,
+  tolerance: number,
+  borderWidth = DEFAULT_ANALYSIS_OPTIONS.borderWidth
+): BackgroundEstimate => {
+  const mode = findBorderMode(getEdgeHistogram(pixels, borderWidth), metric, tolerance);
+  if (!mode) {
+    const white = { r: 255, g: 255, b: 255 };
+    return { hex: rgbToHex(white), rgb: white, kind: 'uncertain', confidence: 0, gradient: null };
+  }
+
+  if (mode.share >= SOLID_SHARE) {
+    return { hex: rgbToHex(mode.rgb), rgb: mode.rgb, kind: 'solid', confidence: mode.share, gradient: null };
+  }
+
+  const directions: BackgroundGradient['direction'][] = ['vertical', 'horizontal'];
+  const best = directions
+    .map(direction => ({ direction, fitted: fitGradient(pixels, direction, metric, tolerance, borderWidth) }))
+    .filter(({ fitted }) => fitted && colorDifference(fitted.from, fitted.to, metric) > tolerance)
+    .sort((a, b) => b.fitted!.fit - a.fitted!.fit)[0];
+
+  if (best && best.fitted!.fit >= GRADIENT_FIT) {
+    const { from, to, fit } = best.fitted!;
+    const mid = mix(from, to, 0.5);
+    return {
+      hex: rgbToHex(mid),
+      rgb: mid,
+      kind: 'gradient',
+      confidence: fit,
+      gradient: { from, to, direction: best.direction }
+    };
+  }
+
+  return { hex: rgbToHex(mode.rgb), rgb: mode.rgb, kind: 'uncertain', confidence: mode.share, gradient: null };
+};
+
+// Function to measure how far a color is from the background; for gradients this
+// is the distance to the closest point along the gradient
+export const backgroundDifference = (rgb: RGB, background: BackgroundEstimate, metric: ColorMetric) => {
+  if (!background.gradient) return colorDifference(rgb, background.rgb, metric);
+  const { from, to } = background.gradient;
+  let closest = Infinity;
+  for (let t = 0; t <= 1; t += 0.125) {
+    closest = Math.min(closest, colorDifference(rgb, mix(from, to, t), metric));
+  }
+  return closest;
+};
+
+// Function to render the background as a CSS color or gradient
+export const backgroundToCss = (background: BackgroundEstimate) => {
+  if (!background.gradient) return rgbToCss(background.rgb);
+  const { from, to, direction } = background.gradient;
+  return `linear-gradient(to ${direction === 'vertical' ? 'bottom' : 'right'}, ${rgbToCss(from)}, ${rgbToCss(to)})`;
+};
@@ -0,0 +1,49 @@
+import {
+  colorDifference,
+  deltaE2000,
+  labToRgb,
+  oklchToRgb,
+  rgbToLab,
+  rgbToOklab,
+  rgbToOklch,
+} from './colorMath';
+
+// Reference pairs from Sharma, Wu & Dalal, "The CIEDE2000 Color-Difference Formula"
+const SHARMA_PAIRS: Array<[[number, number, number], [number, number, number], number]> = [
+  [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+  [[50, 0, 0], [50, -1, 2], 2.3669],
+  [[50, 2.5, 0], [73, 25, -18], 27.1492],
+  [[50, 2.5, 0], [50, 3.1736, 0.5854], 1.0],
+  [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+  [[90.8027, -2.0831, 1.441], [91.1528, -1.6435, 0.0447], 1.4441],
+];
+
+test.each(SHARMA_PAIRS)('deltaE2000 matches the reference data for %j vs %j', (lab1, lab2, expected) => {
+  const [l1, a1, b1] = lab1;
+  const [l2, a2, b2] = lab2;
+  expect(deltaE2000({ l: l1, a: a1, b: b1 }, { l: l2, a: a2, b: b2 })).toBeCloseTo(expected, 4);
+});
+
+test('converts sRGB white and black to the Lab extremes', () => {
+  const white = rgbToLab({ r: 255, g: 255, b: 255 });
+  expect(white.l).toBeCloseTo(100, 2);
+  expect(white.a).toBeCloseTo(0, 2);
+  expect(white.b).toBeCloseTo(0, 2);
+  expect(rgbToLab({ r: 0, g: 0, b: 0 }).l).toBeCloseTo(0, 5);
+  expect(rgbToOklab({ r: 255, g: 255, b: 255 }).l).toBeCloseTo(1, 3);
+});
+
+test('round-trips through Lab and OKLCH', () => {
+  const teal = { r: 20, g: 140, b: 140 };
+  expect(labToRgb(rgbToLab(teal))).toEqual(teal);
+  expect(oklchToRgb(rgbToOklch(teal))).toEqual(teal);
+});
+
+test('reports every metric on a comparable scale', () => {
+  const a = { r: 240, g: 228, b: 200 };
+  const b = { r: 20, g: 140, b: 140 };
+  expect(colorDifference(a, a, 'deltaE2000')).toBe(0);
+  for (const metric of ['deltaE76', 'deltaE2000', 'oklab'] as const) {
+    expect(colorDifference(a, b, metric)).toBeGreaterThan(20);
+  }
+});
@@ -0,0 +1,241 @@
+import { RGB } from './types';
+
+export interface XYZ {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Used for both CIELAB and OKLab; the axes have different scales
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// Hue in degrees (0-360)
+export interface LCh {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export type ColorMetric = 'deltaE76' | 'deltaE2000' | 'oklab';
+
+export const COLOR_METRICS: { [metric in ColorMetric]: string } = {
+  deltaE76: 'ΔE76 (CIELAB)',
+  deltaE2000: 'ΔE2000 (CIELAB)',
+  oklab: 'OKLab',
+};
+
+export const DEFAULT_COLOR_METRIC: ColorMetric = 'deltaE2000';
+
+// D65 reference white
+const WHITE = { x: 0.95047, y: 1, z: 1.08883 };
+
+const clampByte = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+const normalizeHue = (deg: number) => ((deg % 360) + 360) % 360;
+
+// Function to convert an 8-bit sRGB channel to linear light (0-1)
+export const srgbToLinear = (v: number) => {
+  v /= 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+// Function to convert linear light (0-1) back to an 8-bit sRGB channel
+export const linearToSrgb = (v: number) => {
+  const s = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return clampByte(s * 255);
+};
+
+export const rgbToLinear = ({ r, g, b }: RGB): RGB => ({
+  r: srgbToLinear(r),
+  g: srgbToLinear(g),
+  b: srgbToLinear(b),
+});
+
+export const linearToRgb = ({ r, g, b }: RGB): RGB => ({
+  r: linearToSrgb(r),
+  g: linearToSrgb(g),
+  b: linearToSrgb(b),
+});
+
+export const linearToXyz = ({ r, g, b }: RGB): XYZ => ({
+  x: 0.4124564 * r + 0.3575761 * g + 0.1804375 * b,
+  y: 0.2126729 * r + 0.7151522 * g + 0.0721750 * b,
+  z: 0.0193339 * r + 0.1191920 * g + 0.9503041 * b,
+});
+
+export const xyzToLinear = ({ x, y, z }: XYZ): RGB => ({
+  r: 3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+  g: -0.9692660 * x + 1.8760108 * y + 0.0415560 * z,
+  b: 0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+});
+
+const LAB_EPSILON = Math.pow(6 / 29, 3);
+const LAB_KAPPA = 3 * Math.pow(6 / 29, 2);
+
+export const xyzToLab = ({ x, y, z }: XYZ): Lab => {
+  const f = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : t / LAB_KAPPA + 4 / 29);
+  const fx = f(x / WHITE.x);
+  const fy = f(y / WHITE.y);
+  const fz = f(z / WHITE.z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToXyz = ({ l, a, b }: Lab): XYZ => {
+  const finv = (t: number) => (t > 6 / 29 ? t * t * t : LAB_KAPPA * (t - 4 / 29));
+  const fy = (l + 16) / 116;
+  return {
+    x: WHITE.x * finv(fy + a / 500),
+    y: WHITE.y * finv(fy),
+    z: WHITE.z * finv(fy - b / 200),
+  };
+};
+
+export const linearToOklab = ({ r, g, b }: RGB): Lab => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  };
+};
+
+export const oklabToLinear = ({ l, a, b }: Lab): RGB => {
+  const l3 = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m3 = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s3 = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return {
+    r: 4.0767416621 * l3 - 3.3077115913 * m3 + 0.2309699292 * s3,
+    g: -1.2684380046 * l3 + 2.6097574011 * m3 - 0.3413193965 * s3,
+    b: -0.0041960863 * l3 - 0.7034186147 * m3 + 1.7076147010 * s3,
+  };
+};
+
+export const labToLch = ({ l, a, b }: Lab): LCh => ({
+  l,
+  c: Math.hypot(a, b),
+  h: normalizeHue(toDegrees(Math.atan2(b, a))),
+});
+
+export const lchToLab = ({ l, c, h }: LCh): Lab => ({
+  l,
+  a: c * Math.cos(toRadians(h)),
+  b: c * Math.sin(toRadians(h)),
+});
+
+// Conversions from 8-bit sRGB are memoized: images reuse a limited set of colors
+// and the per-pixel passes hit the same values over and over
+const CACHE_LIMIT = 1 << 16;
+const labCache = new Map<number, Lab>();
+const oklabCache = new Map<number, Lab>();
+
+const memoize = (cache: Map<number, Lab>, rgb: RGB, convert: (rgb: RGB) => Lab) => {
+  const key = (rgb.r << 16) | (rgb.g << 8) | rgb.b;
+  let value = cache.get(key);
+  if (!value) {
+    if (cache.size >= CACHE_LIMIT) cache.clear();
+    value = convert(rgb);
+    cache.set(key, value);
+  }
+  return value;
+};
+
+export const rgbToLab = (rgb: RGB) => memoize(labCache, rgb, c => xyzToLab(linearToXyz(rgbToLinear(c))));
+export const labToRgb = (lab: Lab) => linearToRgb(xyzToLinear(labToXyz(lab)));
+export const rgbToOklab = (rgb: RGB) => memoize(oklabCache, rgb, c => linearToOklab(rgbToLinear(c)));
+export const oklabToRgb = (lab: Lab) => linearToRgb(oklabToLinear(lab));
+export const rgbToOklch = (rgb: RGB) => labToLch(rgbToOklab(rgb));
+export const oklchToRgb = (lch: LCh) => oklabToRgb(lchToLab(lch));
+
+// Euclidean distance in CIELAB
+export const deltaE76 = (lab1: Lab, lab2: Lab) => {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+};
+
+// CIEDE2000 (Sharma, Wu & Dalal 2005) with unit weighting factors
+export const deltaE2000 = (lab1: Lab, lab2: Lab) => {
+  const { l: l1, a: a1, b: b1 } = lab1;
+  const { l: l2, a: a2, b: b2 } = lab2;
+  const pow25To7 = Math.pow(25, 7);
+
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(cBar, 7) / (Math.pow(cBar, 7) + pow25To7)));
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : normalizeHue(toDegrees(Math.atan2(b1, a1p)));
+  const h2p = c2p === 0 ? 0 : normalizeHue(toDegrees(Math.atan2(b2, a2p)));
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+  const lBarp = (l1 + l2) / 2;
+  const cBarp = (c1p + c2p) / 2;
+  let hBarp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hBarp = (h1p + h2p + 360) / 2;
+    else hBarp = (h1p + h2p - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBarp - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBarp))
+    + 0.32 * Math.cos(toRadians(3 * hBarp + 6))
+    - 0.20 * Math.cos(toRadians(4 * hBarp - 63));
+  const dTheta = 30 * Math.exp(-Math.pow((hBarp - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(Math.pow(cBarp, 7) / (Math.pow(cBarp, 7) + pow25To7));
+  const sl = 1 + (0.015 * Math.pow(lBarp - 50, 2)) / Math.sqrt(20 + Math.pow(lBarp - 50, 2));
+  const sc = 1 + 0.045 * cBarp;
+  const sh = 1 + 0.015 * cBarp * t;
+  const rt = -Math.sin(toRadians(2 * dTheta)) * rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / sl, 2) +
+    Math.pow(dCp / sc, 2) +
+    Math.pow(dHp / sh, 2) +
+    rt * (dCp / sc) * (dHp / sh)
+  );
+};
+
+// Euclidean distance in OKLab
+export const oklabDistance = (lab1: Lab, lab2: Lab) => {
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+};
+
+// Perceptual difference between two sRGB colors. Every metric is reported on
+// the CIELAB scale (OKLab distances are multiplied by 100) so one set of
+// thresholds works whichever metric is selected.
+export const colorDifference = (rgb1: RGB, rgb2: RGB, metric: ColorMetric = DEFAULT_COLOR_METRIC) => {
+  switch (metric) {
+    case 'deltaE76':
+      return deltaE76(rgbToLab(rgb1), rgbToLab(rgb2));
+    case 'oklab':
+      return oklabDistance(rgbToOklab(rgb1), rgbToOklab(rgb2)) * 100;
+    case 'deltaE2000':
+    default:
+      return deltaE2000(rgbToLab(rgb1), rgbToLab(rgb2));
+  }
+};
@@ -0,0 +1,89 @@
+import { backgroundDifference } from './background';
+import { colorDifference, ColorMetric } from './colorMath';
+import { createSpatialAccumulator } from './spatial';
+import { BackgroundEstimate, PixelData, RGB, SpatialStats } from './types';
+
+export interface PixelAssignment {
+  // Pixel counts per key color, in the order the colors were given
+  keyColors: number[];
+  // Where each key color's pixels sit, or null when none were assigned to it
+  spatial: (SpatialStats | null)[];
+  background: number;
+  unassigned: number;
+  total: number;
+}
+
+// Bucket index used for pixels that belong to the background or to nothing
+export const BACKGROUND_BUCKET = -1;
+export const UNASSIGNED_BUCKET = -2;
+
+// Photos can hold millions of distinct colors, so the remembered decisions are capped
+const CACHE_LIMIT = 1 << 16;
+
+// Function to pick the closest bucket for a color: a key color index, the
+// background, or unassigned when nothing is within tolerance
+export const createColorAssigner = (
+  keyColors: RGB[],
+  background: BackgroundEstimate,
+  metric: ColorMetric,
+  tolerance: number
+) => {
+  // Flat artwork reuses a handful of exact colors, so remember every decision
+  const cache = new Map<number, number>();
+
+  return (r: number, g: number, b: number) => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const rgb = { r, g, b };
+    let bucket = BACKGROUND_BUCKET;
+    let closest = backgroundDifference(rgb, background, metric);
+    keyColors.forEach((color, index) => {
+      const difference = colorDifference(rgb, color, metric);
+      if (difference < closest) {
+        closest = difference;
+        bucket = index;
+      }
+    });
+    if (closest > tolerance) bucket = UNASSIGNED_BUCKET;
+
+    if (cache.size >= CACHE_LIMIT) cache.clear();
+    cache.set(key, bucket);
+    return bucket;
+  };
+};
+
+// Assign every pixel to its nearest key color, the background, or unassigned
+export const assignPixels = (
+  pixels: PixelData,
+  keyColors: RGB[],
+  background: BackgroundEstimate,
+  metric: ColorMetric,
+  tolerance: number
+): PixelAssignment => {
+  const assign = createColorAssigner(keyColors, background, metric, tolerance);
+  const { width, height, data } = pixels;
+  const accumulators = keyColors.map(() => createSpatialAccumulator(width, height));
+  const counts = {
+    keyColors: keyColors.map(() => 0),
+    background: 0,
+    unassigned: 0,
+    total: width * height
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const bucket = assign(data[i], data[i + 1], data[i + 2]);
+      if (bucket === BACKGROUND_BUCKET) counts.background++;
+      else if (bucket === UNASSIGNED_BUCKET) counts.unassigned++;
+      else {
+        counts.keyColors[bucket]++;
+        accumulators[bucket].add(x, y);
+      }
+    }
+  }
+
+  return { ...counts, spatial: accumulators.map(a => a.finish()) };
+};
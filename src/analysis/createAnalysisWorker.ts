@@ -0,0 +1,3 @@
+// Kept in its own module: webpack bundles the worker from this `import.meta.url`
+// reference, which Jest cannot parse, so tests mock this file out
+export const createAnalysisWorker = () => new Worker(new URL('./analysis.worker.ts', import.meta.url));
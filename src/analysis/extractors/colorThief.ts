@@ -0,0 +1,42 @@
+import quantize from '@lokesh.dhakar/quantize';
+import { classifySwatch, PALETTE_SIZE } from './sampling';
+import { PaletteExtractor } from './types';
+
+// ColorThief's defaults: every 10th pixel, skipping transparent and near-white ones
+const QUALITY = 10;
+const MIN_ALPHA = 125;
+const WHITE_CUTOFF = 250;
+
+// ColorThief's own `getPalette` needs an <img> and a DOM canvas, which workers lack, so
+// this runs the median-cut quantizer colorthief is built on over the pixels, with the
+// same sampling
+export const colorThiefExtractor: PaletteExtractor = {
+  id: 'colorthief',
+  name: 'ColorThief',
+  description: 'ColorThief: modified median cut quantization over sampled pixels',
+  extract: async ({ width, height, data }) => {
+    const samples: [number, number, number][] = [];
+    for (let i = 0; i < width * height; i += QUALITY) {
+      const offset = i * 4;
+      const [r, g, b, a] = [data[offset], data[offset + 1], data[offset + 2], data[offset + 3]];
+      if (a < MIN_ALPHA || (r > WHITE_CUTOFF && g > WHITE_CUTOFF && b > WHITE_CUTOFF)) continue;
+      samples.push([r, g, b]);
+    }
+
+    const colorMap = samples.length > 0 ? quantize(samples, PALETTE_SIZE) : false;
+    if (!colorMap) return [];
+
+    // The quantizer reports no counts, so tally which palette color each sample maps to
+    const palette = colorMap.palette();
+    const populations = new Array<number>(palette.length).fill(0);
+    samples.forEach(sample => {
+      const index = palette.indexOf(colorMap.map(sample));
+      if (index >= 0) populations[index]++;
+    });
+
+    return palette.map(([r, g, b], index) => {
+      const rgb = { r, g, b };
+      return { rgb, population: populations[index], label: classifySwatch(rgb) };
+    });
+  },
+};
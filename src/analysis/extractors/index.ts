@@ -0,0 +1,21 @@
+import { colorThiefExtractor } from './colorThief';
+import { kMeansExtractor } from './kmeans';
+import { materialExtractor } from './material';
+import { ExtractorId, PaletteExtractor } from './types';
+import { vibrantExtractor } from './vibrant';
+
+export type { ExtractedSwatch, ExtractorId, PaletteExtractor } from './types';
+export { kMeans } from './kmeans';
+export { classifySwatch, PALETTE_SIZE } from './sampling';
+
+export const EXTRACTORS: PaletteExtractor[] = [
+  vibrantExtractor,
+  colorThiefExtractor,
+  materialExtractor,
+  kMeansExtractor,
+];
+
+export const EXTRACTOR_IDS = EXTRACTORS.map(extractor => extractor.id);
+
+// Function to look up a backend by id
+export const getExtractor = (id: ExtractorId) => EXTRACTORS.find(extractor => extractor.id === id)!;
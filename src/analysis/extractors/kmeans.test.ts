@@ -0,0 +1,24 @@
+import { rgbToLab } from '../colorMath';
+import { kMeans } from './kmeans';
+
+const red = rgbToLab({ r: 200, g: 40, b: 30 });
+const blue = rgbToLab({ r: 30, g: 60, b: 200 });
+
+test('separates well-apart clusters and counts their points', () => {
+  const points = [...Array(30).fill(red), ...Array(10).fill(blue)];
+  const { centers, counts } = kMeans(points, 2);
+
+  expect(centers).toHaveLength(2);
+  expect([...counts].sort((a, b) => a - b)).toEqual([10, 30]);
+  const redCenter = centers[counts.indexOf(30)];
+  expect(redCenter.l).toBeCloseTo(red.l);
+  expect(redCenter.a).toBeCloseTo(red.a);
+});
+
+test('drops clusters it cannot fill and is repeatable', () => {
+  const points = Array(5).fill(red);
+  expect(kMeans(points, 4).centers).toHaveLength(1);
+
+  const mixed = [...Array(12).fill(red), ...Array(7).fill(blue), rgbToLab({ r: 240, g: 220, b: 180 })];
+  expect(kMeans(mixed, 3)).toEqual(kMeans(mixed, 3));
+});
@@ -0,0 +1,97 @@
+import { Lab, labToRgb, rgbToLab } from '../colorMath';
+import { classifySwatch, PALETTE_SIZE, samplePixels } from './sampling';
+import { PaletteExtractor } from './types';
+
+const MAX_SAMPLES = 20000;
+const MAX_ITERATIONS = 30;
+
+export interface KMeansResult {
+  centers: Lab[];
+  // Points assigned to each center
+  counts: number[];
+}
+
+// Function to create a small seeded random generator (mulberry32). A fixed seed keeps
+// palettes, and therefore cached analyses, the same from run to run.
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const distanceSquared = (p: Lab, q: Lab) => (p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2;
+
+// Function to cluster Lab points with k-means, seeded by k-means++. Clusters that
+// end up empty are dropped, so fewer than `k` centers may come back.
+export const kMeans = (points: Lab[], k: number, seed = 1): KMeansResult => {
+  if (points.length === 0) return { centers: [], counts: [] };
+  const random = createRandom(seed);
+
+  // k-means++: each further center is picked with probability proportional to its squared distance
+  const centers: Lab[] = [points[Math.floor(random() * points.length)]];
+  const nearest = points.map(p => distanceSquared(p, centers[0]));
+  while (centers.length < Math.min(k, points.length)) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    let index = 0;
+    while (index < points.length - 1 && target >= nearest[index]) target -= nearest[index++];
+    centers.push(points[index]);
+    points.forEach((p, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSquared(p, points[index]));
+    });
+  }
+
+  const assignment = new Int32Array(points.length).fill(-1);
+  const counts = centers.map(() => 0);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((center, c) => {
+        const d = distanceSquared(p, center);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+
+    const sums = centers.map(() => ({ l: 0, a: 0, b: 0 }));
+    counts.fill(0);
+    points.forEach((p, i) => {
+      const c = assignment[i];
+      sums[c].l += p.l;
+      sums[c].a += p.a;
+      sums[c].b += p.b;
+      counts[c]++;
+    });
+    sums.forEach((sum, c) => {
+      if (counts[c] > 0) centers[c] = { l: sum.l / counts[c], a: sum.a / counts[c], b: sum.b / counts[c] };
+    });
+
+    if (!changed) break;
+  }
+
+  const kept = centers.map((_, c) => c).filter(c => counts[c] > 0);
+  return { centers: kept.map(c => centers[c]), counts: kept.map(c => counts[c]) };
+};
+
+export const kMeansExtractor: PaletteExtractor = {
+  id: 'kmeans',
+  name: 'k-means',
+  description: 'Plain k-means in CIELAB over sampled pixels, seeded with k-means++',
+  extract: async pixels => {
+    const { centers, counts } = kMeans(samplePixels(pixels, MAX_SAMPLES).map(rgbToLab), PALETTE_SIZE);
+    return centers.map((center, index) => {
+      const rgb = labToRgb(center);
+      return { rgb, population: counts[index], label: classifySwatch(rgb) };
+    });
+  },
+};
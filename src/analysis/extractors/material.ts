@@ -0,0 +1,33 @@
+import {
+  argbFromRgb,
+  blueFromArgb,
+  greenFromArgb,
+  QuantizerCelebi,
+  redFromArgb,
+  Score,
+} from '@material/material-color-utilities';
+import { classifySwatch, PALETTE_SIZE, samplePixels } from './sampling';
+import { PaletteExtractor } from './types';
+
+const MAX_SAMPLES = 100000;
+// Colors the quantizer produces before scoring picks the palette, as in Material's theme-from-image
+const QUANTIZER_COLORS = 128;
+
+export const materialExtractor: PaletteExtractor = {
+  id: 'material',
+  name: 'Material',
+  description: "Material Color Utilities: Celebi (Wu + weighted k-means) quantizer, ranked by Material's scoring",
+  extract: async pixels => {
+    const samples = samplePixels(pixels, MAX_SAMPLES).map(({ r, g, b }) => argbFromRgb(r, g, b));
+    if (samples.length === 0) return [];
+
+    const populations = QuantizerCelebi.quantize(samples, QUANTIZER_COLORS);
+    // Without filtering, scoring keeps neutrals instead of falling back to a default blue
+    const ranked = Score.score(populations, { desired: PALETTE_SIZE, filter: false });
+
+    return ranked.map(argb => {
+      const rgb = { r: redFromArgb(argb), g: greenFromArgb(argb), b: blueFromArgb(argb) };
+      return { rgb, population: populations.get(argb) ?? 0, label: classifySwatch(rgb) };
+    });
+  },
+};
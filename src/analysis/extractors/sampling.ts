@@ -0,0 +1,34 @@
+import { rgbToHsl } from '../color';
+import { PixelData, RGB, SwatchLabel } from '../types';
+
+// Colors each backend is asked for, matching the six Vibrant slots
+export const PALETTE_SIZE = 6;
+
+// Pixels at least this opaque are sampled, as ColorThief does
+const MIN_ALPHA = 125;
+
+// Function to take an evenly strided sample of opaque pixels, at most `maxSamples` of them
+export const samplePixels = (pixels: PixelData, maxSamples: number) => {
+  const { width, height, data } = pixels;
+  const total = width * height;
+  const step = Math.max(1, Math.ceil(total / maxSamples));
+  const samples: RGB[] = [];
+
+  for (let i = 0; i < total; i += step) {
+    const offset = i * 4;
+    if (data[offset + 3] < MIN_ALPHA) continue;
+    samples.push({ r: data[offset], g: data[offset + 1], b: data[offset + 2] });
+  }
+
+  return samples;
+};
+
+// Function to name a color after the nearest Vibrant slot, so palettes from every
+// backend share the same labels. Thresholds sit halfway between Vibrant's targets.
+export const classifySwatch = ({ r, g, b }: RGB): SwatchLabel => {
+  const { s, l } = rgbToHsl(r, g, b);
+  const muted = s < 40;
+  if (l < 38) return muted ? 'Dark Muted' : 'Dark Vibrant';
+  if (l > 62) return muted ? 'Light Muted' : 'Light Vibrant';
+  return muted ? 'Muted' : 'Vibrant';
+};
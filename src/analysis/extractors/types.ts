@@ -0,0 +1,20 @@
+import { PixelData, RGB, SwatchLabel } from '../types';
+
+export type ExtractorId = 'vibrant' | 'colorthief' | 'material' | 'kmeans';
+
+// A palette color as an extractor reports it, before background filtering and merging
+export interface ExtractedSwatch {
+  rgb: RGB;
+  // Number of pixels (or samples) the extractor attributes to this color
+  population: number;
+  label: SwatchLabel;
+}
+
+// A palette-extraction backend. Extractors work on raw pixels only, so they run
+// in the analysis worker and in the Node batch script alike.
+export interface PaletteExtractor {
+  id: ExtractorId;
+  name: string;
+  description: string;
+  extract: (pixels: PixelData) => Promise<ExtractedSwatch[]>;
+}
@@ -0,0 +1,30 @@
+import { Vibrant } from 'node-vibrant/browser';
+import { hexToRgb } from '../color';
+import { createPixelImageClass } from '../pixelImage';
+import { SwatchLabel } from '../types';
+import { ExtractedSwatch, PaletteExtractor } from './types';
+
+const SLOT_LABELS: { [slot: string]: SwatchLabel } = {
+  Vibrant: 'Vibrant',
+  DarkVibrant: 'Dark Vibrant',
+  LightVibrant: 'Light Vibrant',
+  Muted: 'Muted',
+  DarkMuted: 'Dark Muted',
+  LightMuted: 'Light Muted',
+};
+
+export const vibrantExtractor: PaletteExtractor = {
+  id: 'vibrant',
+  name: 'Vibrant',
+  description: 'node-vibrant: median cut, then the best match for each of six vibrant and muted slots',
+  extract: async pixels => {
+    const palette = await new Vibrant('', { ImageClass: createPixelImageClass(pixels) }).getPalette();
+    const swatches: ExtractedSwatch[] = [];
+    Object.entries(palette).forEach(([slot, swatch]) => {
+      const rgb = swatch && hexToRgb(swatch.hex);
+      if (!swatch || !rgb) return;
+      swatches.push({ rgb, population: swatch.population, label: SLOT_LABELS[slot] ?? 'Vibrant' });
+    });
+    return swatches;
+  },
+};
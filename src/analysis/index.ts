@@ -0,0 +1,27 @@
+export * from './types';
+export * from './color';
+export * from './colorMath';
+export * from './options';
+export {
+  backgroundDifference,
+  backgroundToCss,
+  detectBackground,
+  getEdgeHistogram,
+} from './background';
+export {
+  assignPixels,
+  createColorAssigner,
+  BACKGROUND_BUCKET,
+  UNASSIGNED_BUCKET,
+} from './coverage';
+export type { PixelAssignment } from './coverage';
+export { buildHighlightMask } from './mask';
+export { createSpatialAccumulator, DENSITY_GRID_SIZE, orderKeyColors } from './spatial';
+export type { BandLayout } from './spatial';
+export { classifySwatch, EXTRACTOR_IDS, EXTRACTORS, getExtractor, kMeans, PALETTE_SIZE } from './extractors';
+export type { ExtractedSwatch, ExtractorId, PaletteExtractor } from './extractors';
+export {
+  analyzeArtwork,
+  getColorVerticalPosition,
+  mergeDuplicateColors,
+} from './analyzeArtwork';
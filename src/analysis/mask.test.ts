@@ -0,0 +1,28 @@
+import { buildHighlightMask } from './mask';
+import { BackgroundEstimate, PixelData } from './types';
+
+const cream = { r: 240, g: 228, b: 200 };
+const teal = { r: 20, g: 140, b: 140 };
+const red = { r: 200, g: 40, b: 30 };
+
+const background: BackgroundEstimate = { hex: '#f0e4c8', rgb: cream, kind: 'solid', confidence: 1, gradient: null };
+
+// One row of four pixels: cream, teal, red, teal
+const pixels: PixelData = {
+  width: 4,
+  height: 1,
+  data: new Uint8ClampedArray([cream, teal, red, teal].flatMap(({ r, g, b }) => [r, g, b, 255])),
+};
+
+const alphas = (mask: { data: Uint8ClampedArray }) => Array.from(mask.data).filter((_, i) => i % 4 === 3);
+
+test('leaves only pixels of the selected colors undimmed', () => {
+  const mask = buildHighlightMask(pixels, [teal, red], [0], background, 'deltaE2000', 20);
+  expect(mask.matched).toBe(2);
+  expect(alphas(mask).map(a => a === 0)).toEqual([false, true, false, true]);
+});
+
+test('supports selecting several colors at once', () => {
+  const mask = buildHighlightMask(pixels, [teal, red], [0, 1], background, 'deltaE2000', 20);
+  expect(mask.matched).toBe(3);
+});
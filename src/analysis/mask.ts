@@ -0,0 +1,34 @@
+import { createColorAssigner } from './coverage';
+import { ColorMetric } from './colorMath';
+import { BackgroundEstimate, PixelData, RGB } from './types';
+
+// Opacity of the dimming layer over pixels outside the selection (0-255)
+const DIM_ALPHA = 190;
+
+// Function to build an RGBA overlay that darkens every pixel not assigned to one
+// of the selected key colors. Pixels are assigned with the same nearest-color
+// rule as the coverage pass, using `tolerance` as the cut-off.
+export const buildHighlightMask = (
+  pixels: PixelData,
+  keyColors: RGB[],
+  selected: number[],
+  background: BackgroundEstimate,
+  metric: ColorMetric,
+  tolerance: number
+) => {
+  const assign = createColorAssigner(keyColors, background, metric, tolerance);
+  const selection = new Set(selected);
+  const { data } = pixels;
+  const mask = new Uint8ClampedArray(pixels.width * pixels.height * 4);
+  let matched = 0;
+
+  for (let i = 0; i < mask.length; i += 4) {
+    if (selection.has(assign(data[i], data[i + 1], data[i + 2]))) {
+      matched++;
+    } else {
+      mask[i + 3] = DIM_ALPHA;
+    }
+  }
+
+  return { width: pixels.width, height: pixels.height, data: mask, matched };
+};
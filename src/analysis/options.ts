@@ -0,0 +1,48 @@
+import { ColorMetric, DEFAULT_COLOR_METRIC } from './colorMath';
+import { ExtractorId } from './extractors/types';
+
+// Tolerances are perceptual differences on the CIELAB scale (see `colorDifference`)
+export interface AnalysisOptions {
+  // Backend that finds the palette, see `EXTRACTORS`
+  extractor: ExtractorId;
+  metric: ColorMetric;
+  // Maximum difference for border pixels to count as the same background color
+  backgroundTolerance: number;
+  // Minimum difference from the background for a swatch to count as a key color
+  backgroundSeparation: number;
+  // Maximum difference for a pixel to count toward a key color's position
+  positionMatch: number;
+  // Key colors closer than this are merged into one
+  duplicateMerge: number;
+  // Pixels further than this from every key color and the background are left unassigned
+  assignmentTolerance: number;
+  // Mean channel brightness (0-255) at or above which a pixel counts as white
+  whiteThreshold: number;
+  // Mean channel brightness (0-255) at or below which a pixel counts as black
+  blackThreshold: number;
+  // Percent of the canvas black or white must cover to become a key color
+  significantShare: number;
+  // Width of the border band read for the background, in percent of the shorter side
+  borderWidth: number;
+  // Every nth row and column is sampled when locating a key color
+  positionStride: number;
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  extractor: 'vibrant',
+  metric: DEFAULT_COLOR_METRIC,
+  backgroundTolerance: 8,
+  backgroundSeparation: 15,
+  positionMatch: 10,
+  duplicateMerge: 5,
+  assignmentTolerance: 20,
+  whiteThreshold: 240,
+  blackThreshold: 30,
+  significantShare: 5,
+  borderWidth: 10,
+  positionStride: 4,
+};
+
+// Bump whenever the pipeline changes what it produces for the same pixels and
+// options, so cached analyses from older builds are not reused
+export const ANALYSIS_VERSION = 1;
@@ -0,0 +1,80 @@
+import { PixelData } from './types';
+
+// node-vibrant loads images through an `ImageClass` (a canvas in the browser,
+// a Jimp bitmap in Node). This adapter feeds it pixels we already decoded, so
+// the palette step behaves the same in both environments.
+export const createPixelImageClass = (pixels: PixelData) => {
+  return class PixelImage {
+    private width = pixels.width;
+    private height = pixels.height;
+    // Vibrant's filters write into the buffer, so never hand out the caller's copy
+    private data = new Uint8ClampedArray(pixels.data);
+
+    async load() {
+      return this;
+    }
+
+    clear() {
+      this.data.fill(0);
+    }
+
+    update(imageData: PixelData) {
+      this.width = imageData.width;
+      this.height = imageData.height;
+      this.data = new Uint8ClampedArray(imageData.data);
+    }
+
+    getWidth() {
+      return this.width;
+    }
+
+    getHeight() {
+      return this.height;
+    }
+
+    // Nearest-neighbour downsample, used by Vibrant's `quality` option
+    resize(targetWidth: number, targetHeight: number) {
+      const width = Math.max(1, Math.floor(targetWidth));
+      const height = Math.max(1, Math.floor(targetHeight));
+      const resized = new Uint8ClampedArray(width * height * 4);
+
+      for (let y = 0; y < height; y++) {
+        const sy = Math.min(this.height - 1, Math.floor(y * this.height / height));
+        for (let x = 0; x < width; x++) {
+          const sx = Math.min(this.width - 1, Math.floor(x * this.width / width));
+          const from = (sy * this.width + sx) * 4;
+          const to = (y * width + x) * 4;
+          resized[to] = this.data[from];
+          resized[to + 1] = this.data[from + 1];
+          resized[to + 2] = this.data[from + 2];
+          resized[to + 3] = this.data[from + 3];
+        }
+      }
+
+      this.width = width;
+      this.height = height;
+      this.data = resized;
+    }
+
+    getPixelCount() {
+      return this.width * this.height;
+    }
+
+    getImageData() {
+      return { width: this.width, height: this.height, data: this.data };
+    }
+
+    remove() {}
+
+    scaleDown(opts: { quality: number, maxDimension: number }) {
+      let ratio = 1;
+      if (opts.maxDimension > 0) {
+        const maxSide = Math.max(this.width, this.height);
+        if (maxSide > opts.maxDimension) ratio = opts.maxDimension / maxSide;
+      } else {
+        ratio = 1 / opts.quality;
+      }
+      if (ratio < 1) this.resize(this.width * ratio, this.height * ratio);
+    }
+  };
+};
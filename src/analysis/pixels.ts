@@ -0,0 +1,22 @@
+import { PixelData } from './types';
+
+// Function to visit every pixel inside a rectangle of the image
+export const forEachPixelInRect = (
+  pixels: PixelData,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  visit: (r: number, g: number, b: number, x: number, y: number) => void
+) => {
+  const x0 = Math.max(0, left);
+  const y0 = Math.max(0, top);
+  const x1 = Math.min(pixels.width, left + width);
+  const y1 = Math.min(pixels.height, top + height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * pixels.width + x) * 4;
+      visit(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2], x, y);
+    }
+  }
+};
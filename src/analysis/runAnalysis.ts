@@ -0,0 +1,70 @@
+import type { AnalysisRequest, AnalysisResponse } from './analysis.worker';
+import { analyzeArtwork } from './analyzeArtwork';
+import { createAnalysisWorker } from './createAnalysisWorker';
+import { AnalysisOptions } from './options';
+import { AnalysisProgress, ArtworkAnalysis, PixelData } from './types';
+
+export interface AnalysisJob {
+  analysis: ArtworkAnalysis;
+  // The analyzed pixels; the caller's buffer is handed to the worker and comes back here
+  pixels: PixelData;
+}
+
+interface RunAnalysisOptions {
+  options?: Partial<AnalysisOptions>;
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Aborting terminates the job and rejects with an `AbortError`
+  signal?: AbortSignal;
+}
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+// Function to tell a cancelled analysis apart from a failed one
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Function to analyze pixels in a dedicated Web Worker so the page stays responsive.
+// Falls back to the main thread where workers are unavailable (tests, old browsers).
+export const runAnalysis = (
+  pixels: PixelData,
+  { options = {}, onProgress, signal }: RunAnalysisOptions = {}
+): Promise<AnalysisJob> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  if (typeof Worker === 'undefined') {
+    return analyzeArtwork(pixels, options, onProgress).then(analysis => {
+      if (signal?.aborted) throw abortError();
+      return { analysis, pixels };
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = createAnalysisWorker();
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = ({ data }: MessageEvent<AnalysisResponse>) => {
+      if (data.type === 'progress') {
+        onProgress?.(data.progress);
+        return;
+      }
+      finish();
+      if (data.type === 'result') resolve({ analysis: data.analysis, pixels: data.pixels });
+      else reject(new Error(data.message));
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    const request: AnalysisRequest = { pixels, options };
+    worker.postMessage(request, [pixels.data.buffer]);
+  });
+};
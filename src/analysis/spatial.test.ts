@@ -0,0 +1,47 @@
+import { createSpatialAccumulator, DENSITY_GRID_SIZE, orderKeyColors } from './spatial';
+import { KeyColor } from './types';
+
+test('reports centroid, bounds and row extent in normalized coordinates', () => {
+  const accumulator = createSpatialAccumulator(11, 11);
+  // A 3×3 block in the top-left corner plus one stray pixel on the bottom row
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) accumulator.add(x, y);
+  }
+  accumulator.add(10, 10);
+
+  const stats = accumulator.finish()!;
+  expect(stats.bounds).toEqual({ left: 0, top: 0, right: 1, bottom: 1 });
+  expect(stats.rows.min).toBe(0);
+  expect(stats.rows.median).toBeCloseTo(0.1);
+  expect(stats.rows.max).toBe(1);
+  expect(stats.centroid.x).toBeCloseTo(19 / 10 / 10);
+  expect(stats.density).toHaveLength(DENSITY_GRID_SIZE * DENSITY_GRID_SIZE);
+  expect(stats.density.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1);
+  expect(stats.density[stats.density.length - 1]).toBeCloseTo(0.1);
+});
+
+test('returns null when no pixels were added', () => {
+  expect(createSpatialAccumulator(4, 4).finish()).toBeNull();
+});
+
+test('orders key colors by centroid, falling back to the sampled position', () => {
+  const color = (hex: string, verticalPosition: number, centroidY: number | null): KeyColor => ({
+    hex,
+    rgb: { r: 0, g: 0, b: 0 },
+    label: 'Vibrant',
+    population: 1,
+    percentage: 50,
+    coverage: 50,
+    verticalPosition,
+    spatial: centroidY === null ? null : {
+      centroid: { x: 0.5, y: centroidY },
+      bounds: { left: 0, top: 0, right: 1, bottom: 1 },
+      rows: { min: 0, median: centroidY, max: 1 },
+      density: [],
+    },
+  });
+  const colors = [color('#111111', 0.2, 0.8), color('#222222', 0.5, null), color('#333333', 0.7, 0.1)];
+
+  expect(orderKeyColors(colors, 'position').map(c => c.hex)).toEqual(['#111111', '#222222', '#333333']);
+  expect(orderKeyColors(colors, 'centroid').map(c => c.hex)).toEqual(['#333333', '#222222', '#111111']);
+});
@@ -0,0 +1,68 @@
+import { KeyColor, SpatialStats } from './types';
+
+// Cells per side of the coarse density grid
+export const DENSITY_GRID_SIZE = 8;
+
+// Function to create an accumulator that gathers where one color's pixels are.
+// Rows are counted in a histogram so the median needs no per-pixel storage.
+export const createSpatialAccumulator = (width: number, height: number) => {
+  const rowCounts = new Uint32Array(height);
+  const cells = new Array<number>(DENSITY_GRID_SIZE * DENSITY_GRID_SIZE).fill(0);
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let minX = width;
+  let maxX = -1;
+
+  return {
+    add(x: number, y: number) {
+      count++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      rowCounts[y]++;
+      const cellX = Math.min(DENSITY_GRID_SIZE - 1, Math.floor((x / width) * DENSITY_GRID_SIZE));
+      const cellY = Math.min(DENSITY_GRID_SIZE - 1, Math.floor((y / height) * DENSITY_GRID_SIZE));
+      cells[cellY * DENSITY_GRID_SIZE + cellX]++;
+    },
+
+    finish(): SpatialStats | null {
+      if (count === 0) return null;
+
+      let minY = -1;
+      let maxY = -1;
+      let medianY = -1;
+      let seen = 0;
+      for (let y = 0; y < height; y++) {
+        if (rowCounts[y] === 0) continue;
+        if (minY < 0) minY = y;
+        maxY = y;
+        seen += rowCounts[y];
+        if (medianY < 0 && seen >= count / 2) medianY = y;
+      }
+
+      // Normalize pixel indices so the last row/column maps to 1
+      const nx = (x: number) => (width > 1 ? x / (width - 1) : 0);
+      const ny = (y: number) => (height > 1 ? y / (height - 1) : 0);
+
+      return {
+        centroid: { x: nx(sumX / count), y: ny(sumY / count) },
+        bounds: { left: nx(minX), top: ny(minY), right: nx(maxX), bottom: ny(maxY) },
+        rows: { min: ny(minY), median: ny(medianY), max: ny(maxY) },
+        density: cells.map(c => c / count),
+      };
+    },
+  };
+};
+
+// How the Color Visualization orders and places its bands
+export type BandLayout = 'position' | 'centroid' | 'extent';
+
+// Function to order key colors for the visualization: by the sampled mean
+// position (legacy), or by the centroid of their assigned pixels
+export const orderKeyColors = <T extends KeyColor>(keyColors: T[], layout: BandLayout): T[] => {
+  if (layout === 'position') return keyColors;
+  const key = (c: T) => (layout === 'centroid' ? c.spatial?.centroid.y : c.spatial?.rows.min) ?? c.verticalPosition;
+  return [...keyColors].sort((a, b) => key(a) - key(b));
+};
@@ -0,0 +1,105 @@
+// Raw RGBA pixels laid out like the DOM ImageData (row-major, 4 bytes per pixel).
+// Jimp bitmaps and canvas ImageData both satisfy this shape.
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Vibrant slot names as shown in the UI, plus the two monochrome buckets
+export type SwatchLabel =
+  | 'Vibrant'
+  | 'Dark Vibrant'
+  | 'Light Vibrant'
+  | 'Muted'
+  | 'Dark Muted'
+  | 'Light Muted'
+  | 'Black'
+  | 'White';
+
+// Where a color's assigned pixels sit; all coordinates are normalized to 0-1
+export interface SpatialStats {
+  centroid: { x: number; y: number };
+  bounds: { left: number; top: number; right: number; bottom: number };
+  // Vertical extent and the row holding the median pixel
+  rows: { min: number; median: number; max: number };
+  // Share of the color's pixels in each cell of a coarse grid, row-major
+  density: number[];
+}
+
+export interface KeyColor {
+  hex: string;
+  rgb: RGB;
+  label: SwatchLabel;
+  // Pixel population reported by Vibrant, or the raw pixel count for black/white
+  population: number;
+  // Legacy share: the summed population of all key colors (0-100)
+  percentage: number;
+  // Share of the whole canvas assigned to this color (0-100)
+  coverage: number;
+  // Mean Y of matching pixels, normalized to 0 (top) - 1 (bottom)
+  verticalPosition: number;
+  // Spatial distribution of the pixels assigned to this color, null when none were
+  spatial: SpatialStats | null;
+}
+
+export interface MonochromeCoverage {
+  pixelCount: number;
+  // Share of the whole canvas (0-100)
+  percentage: number;
+  verticalPosition: number;
+  // Whether the coverage passed the significance threshold and was added as a key color
+  significant: boolean;
+}
+
+export type BackgroundKind = 'solid' | 'gradient' | 'uncertain';
+
+export interface BackgroundGradient {
+  // Stops in reading order: top to bottom, or left to right
+  from: RGB;
+  to: RGB;
+  direction: 'vertical' | 'horizontal';
+}
+
+export interface BackgroundEstimate {
+  // Representative color: the border mode, or the gradient midpoint
+  hex: string;
+  rgb: RGB;
+  kind: BackgroundKind;
+  // 0-1: share of the border explained by the solid color or fitted gradient
+  confidence: number;
+  gradient: BackgroundGradient | null;
+}
+
+// Steps of `analyzeArtwork`, in the order they run
+export type AnalysisStage = 'monochrome' | 'background' | 'palette' | 'positions' | 'coverage';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Overall completion of the analysis, 0-1
+  progress: number;
+}
+
+// How key color percentages are shown: Vibrant population shares, or area coverage
+export type PercentageMode = 'legacy' | 'coverage';
+
+export interface ArtworkAnalysis {
+  width: number;
+  height: number;
+  background: BackgroundEstimate;
+  // Ordered top to bottom by vertical position
+  keyColors: KeyColor[];
+  // Canvas shares outside the key colors; with the key color coverages they sum to 100
+  coverage: {
+    background: number;
+    unassigned: number;
+  };
+  black: MonochromeCoverage;
+  white: MonochromeCoverage;
+}
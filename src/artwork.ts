@@ -0,0 +1,67 @@
+import { AnalysisOptions, ArtworkAnalysis } from './analysis';
+import { runAnalysis } from './analysis/runAnalysis';
+import { getCachedAnalysis, getCachedImage, putCachedAnalysis, putCachedImage } from './cache';
+import { ArtBlocksProject, getArtworkImageUrl } from './projects';
+
+// Function to decode an image URL into pixels on a canvas, optionally scaling it
+// down so its longer side is at most `maxSize` pixels
+export const decodeImage = async (imageUrl: string, maxSize = Infinity) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+    img.src = imageUrl;
+  });
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Function to get a token's analysis from the cache, or download and analyze it
+// in a worker and cache the result
+export const analyzeToken = async (
+  project: ArtBlocksProject,
+  tokenId: number,
+  signal?: AbortSignal,
+  options: Partial<AnalysisOptions> = {}
+): Promise<ArtworkAnalysis> => {
+  const cached = await getCachedAnalysis(project, tokenId, options);
+  if (cached) return cached;
+
+  const pixels = await decodeImage(getArtworkImageUrl(project, tokenId));
+  const { analysis } = await runAnalysis(pixels, { options, signal });
+  await putCachedAnalysis(project, tokenId, analysis, options);
+  return analysis;
+};
+
+// Function to warm the caches for a token the viewer may show next: its image, kept
+// in the image cache when that is enabled, and its analysis with the viewer's options
+export const preloadToken = async (
+  project: ArtBlocksProject,
+  tokenId: number,
+  { options = {}, cacheImages = false, signal }: {
+    options?: Partial<AnalysisOptions>;
+    cacheImages?: boolean;
+    signal?: AbortSignal;
+  } = {}
+) => {
+  const imageUrl = getArtworkImageUrl(project, tokenId);
+  if (cacheImages && !(await getCachedImage(project, tokenId))) {
+    const response = await fetch(imageUrl, { signal });
+    if (!response.ok) throw new Error(`Image request failed with ${response.status}`);
+    await putCachedImage(project, tokenId, await response.blob());
+  }
+  if (signal?.aborted) return;
+
+  // Decoding also leaves the image in the browser cache for the viewer to load
+  const pixels = await decodeImage(imageUrl);
+  if (signal?.aborted || await getCachedAnalysis(project, tokenId, options)) return;
+  const { analysis } = await runAnalysis(pixels, { options, signal });
+  await putCachedAnalysis(project, tokenId, analysis, options);
+};
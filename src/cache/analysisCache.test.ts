@@ -0,0 +1,32 @@
+import { ANALYSIS_VERSION, DEFAULT_ANALYSIS_OPTIONS } from '../analysis';
+import { DEFAULT_PROJECT } from '../projects';
+import { getAnalysisCacheKey, getCachedAnalysis, hashAnalysisOptions } from './analysisCache';
+
+test('keys include the project, token and analysis version', () => {
+  expect(getAnalysisCacheKey(DEFAULT_PROJECT, 42)).toMatch(new RegExp(`^meridian:42:v${ANALYSIS_VERSION}:[0-9a-f]{8}$`));
+});
+
+test('hashes the effective options, so explicit defaults match omitted ones', () => {
+  expect(hashAnalysisOptions({ ...DEFAULT_ANALYSIS_OPTIONS })).toBe(hashAnalysisOptions());
+  expect(hashAnalysisOptions({ assignmentTolerance: 25 })).not.toBe(hashAnalysisOptions());
+  expect(hashAnalysisOptions({ metric: 'oklab' })).not.toBe(hashAnalysisOptions({ metric: 'deltaE76' }));
+});
+
+test('misses without IndexedDB instead of throwing', async () => {
+  await expect(getCachedAnalysis(DEFAULT_PROJECT, 1)).resolves.toBeNull();
+});
+
+test('misses instead of waiting when another tab blocks the upgrade', async () => {
+  const request = {} as IDBOpenDBRequest;
+  Object.defineProperty(window, 'indexedDB', { configurable: true, value: { open: () => request } });
+  // A fresh module, so the database is opened against the stub above
+  let cache!: typeof import('./analysisCache');
+  jest.isolateModules(() => {
+    cache = require('./analysisCache');
+  });
+
+  const lookup = cache.getCachedAnalysis(DEFAULT_PROJECT, 1);
+  request.onblocked!(new Event('blocked') as IDBVersionChangeEvent);
+  await expect(lookup).resolves.toBeNull();
+  Reflect.deleteProperty(window, 'indexedDB');
+});
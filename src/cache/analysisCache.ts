@@ -0,0 +1,206 @@
+import { AnalysisOptions, ANALYSIS_VERSION, ArtworkAnalysis, DEFAULT_ANALYSIS_OPTIONS } from '../analysis';
+import { ArtBlocksProject } from '../projects';
+
+const DB_NAME = 'meridian-art-viewer';
+// Version 2 keys entries by project as well as token
+const DB_VERSION = 2;
+const ANALYSES_STORE = 'analyses';
+const IMAGES_STORE = 'images';
+
+interface CachedAnalysis {
+  key: string;
+  project: string;
+  tokenId: number;
+  analysis: ArtworkAnalysis;
+  createdAt: number;
+}
+
+interface CachedImage {
+  key: string;
+  project: string;
+  tokenId: number;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface CacheStats {
+  analyses: number;
+  images: number;
+  // Approximate: serialized analysis length plus image blob sizes
+  bytes: number;
+}
+
+// Function to hash a string with 32-bit FNV-1a
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Function to hash the effective analysis options, independent of key order
+export const hashAnalysisOptions = (options: Partial<AnalysisOptions> = {}) => {
+  const effective: { [key: string]: unknown } = { ...DEFAULT_ANALYSIS_OPTIONS, ...options };
+  return fnv1a(JSON.stringify(Object.keys(effective).sort().map(key => [key, effective[key]])));
+};
+
+// Function to build the key of a cached image: token indices repeat across projects
+const getImageCacheKey = (project: ArtBlocksProject, tokenId: number) => `${project.slug}:${tokenId}`;
+
+// Cache key: token, pipeline version and options, so any change invalidates old entries
+export const getAnalysisCacheKey = (
+  project: ArtBlocksProject,
+  tokenId: number,
+  options: Partial<AnalysisOptions> = {}
+) => `${getImageCacheKey(project, tokenId)}:v${ANALYSIS_VERSION}:${hashAnalysisOptions(options)}`;
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Function to open the cache database once. Resolves to null where IndexedDB is
+// unavailable (tests, private browsing) so every cache call becomes a miss.
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Entries are only a cache, so older layouts are dropped rather than migrated
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+        db.createObjectStore(ANALYSES_STORE, { keyPath: 'key' });
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+      };
+      let blocked = false;
+      // Another tab still has the previous version open; go without the cache rather than
+      // wait, and try again on the next call
+      request.onblocked = () => {
+        blocked = true;
+        database = null;
+        resolve(null);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version opened in another tab upgrade instead of blocking on this one
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.warn('Analysis cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+};
+
+// Function to run one request against a store and resolve with its result
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+  return new Promise(resolve => {
+    let request: IDBRequest<T>;
+    try {
+      request = run(db.transaction(storeName, mode).objectStore(storeName));
+    } catch (error) {
+      // The connection closed for an upgrade, or the value could not be cloned
+      console.warn('Analysis cache request failed:', error);
+      resolve(null);
+      return;
+    }
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Analysis cache request failed:', request.error);
+      resolve(null);
+    };
+  });
+};
+
+export const getCachedAnalysis = async (
+  project: ArtBlocksProject,
+  tokenId: number,
+  options: Partial<AnalysisOptions> = {}
+) => {
+  const entry = await withStore<CachedAnalysis | undefined>(ANALYSES_STORE, 'readonly', store =>
+    store.get(getAnalysisCacheKey(project, tokenId, options))
+  );
+  return entry?.analysis ?? null;
+};
+
+export const putCachedAnalysis = async (
+  project: ArtBlocksProject,
+  tokenId: number,
+  analysis: ArtworkAnalysis,
+  options: Partial<AnalysisOptions> = {}
+) => {
+  const entry: CachedAnalysis = {
+    key: getAnalysisCacheKey(project, tokenId, options),
+    project: project.slug,
+    tokenId,
+    analysis,
+    createdAt: Date.now(),
+  };
+  await withStore(ANALYSES_STORE, 'readwrite', store => store.put(entry));
+};
+
+// Function to collect every cached analysis of a project made with the given options
+export const getCachedAnalyses = async (project: ArtBlocksProject, options: Partial<AnalysisOptions> = {}) => {
+  const entries = await withStore<CachedAnalysis[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  return new Map((entries ?? [])
+    .filter(entry => entry.key === getAnalysisCacheKey(project, entry.tokenId, options))
+    .map(entry => [entry.tokenId, entry.analysis]));
+};
+
+export const getCachedImage = async (project: ArtBlocksProject, tokenId: number) => {
+  const entry = await withStore<CachedImage | undefined>(IMAGES_STORE, 'readonly', store =>
+    store.get(getImageCacheKey(project, tokenId))
+  );
+  return entry?.blob ?? null;
+};
+
+export const putCachedImage = async (project: ArtBlocksProject, tokenId: number, blob: Blob) => {
+  const entry: CachedImage = {
+    key: getImageCacheKey(project, tokenId),
+    project: project.slug,
+    tokenId,
+    blob,
+    createdAt: Date.now(),
+  };
+  await withStore(IMAGES_STORE, 'readwrite', store => store.put(entry));
+};
+
+// Function to count cache entries and estimate their size
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const [analyses, images] = await Promise.all([
+    withStore<CachedAnalysis[]>(ANALYSES_STORE, 'readonly', store => store.getAll()),
+    withStore<CachedImage[]>(IMAGES_STORE, 'readonly', store => store.getAll()),
+  ]);
+  return {
+    analyses: analyses?.length ?? 0,
+    images: images?.length ?? 0,
+    bytes: (analyses ?? []).reduce((sum, entry) => sum + JSON.stringify(entry.analysis).length, 0)
+      + (images ?? []).reduce((sum, entry) => sum + entry.blob.size, 0),
+  };
+};
+
+export const clearCache = async () => {
+  await Promise.all([
+    withStore(ANALYSES_STORE, 'readwrite', store => store.clear()),
+    withStore(IMAGES_STORE, 'readwrite', store => store.clear()),
+  ]);
+};
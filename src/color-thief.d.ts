@@ -3,4 +3,14 @@ declare module 'colorthief' {
     getColor(img: HTMLImageElement): [number, number, number];
     getPalette(img: HTMLImageElement, colorCount: number): Array<[number, number, number]>;
   }
-} 
\ No newline at end of file
+} 
+// The median-cut quantizer behind ColorThief, usable on raw pixels without a DOM
+declare module '@lokesh.dhakar/quantize' {
+  type Pixel = [number, number, number];
+  interface ColorMap {
+    palette(): Pixel[];
+    // Returns the palette color (the same array as in `palette()`) a pixel falls into
+    map(pixel: Pixel): Pixel;
+  }
+  export default function quantize(pixels: Pixel[], maxColors: number): ColorMap | false;
+}
@@ -0,0 +1,75 @@
+// Flows and supplies below this are treated as used up
+const EPSILON = 1e-9;
+
+// Function to compute the Earth Mover's distance between two distributions whose
+// weights each sum to 1: the cheapest way to move one onto the other, where
+// `cost[i][j]` is the cost per unit moved from `from[i]` to `to[j]`. Solved exactly as
+// a min-cost flow by successive shortest paths, fine for palette-sized inputs.
+export const earthMoversDistance = (from: number[], to: number[], cost: number[][]) => {
+  const n = from.length;
+  const m = to.length;
+  const supply = [...from];
+  const demand = [...to];
+  const flow = from.map(() => to.map(() => 0));
+  let total = 0;
+
+  // Nodes 0..n-1 are sources, n..n+m-1 destinations; moved flow can be sent back
+  for (;;) {
+    const distance = new Array<number>(n + m).fill(Infinity);
+    const previous = new Array<number>(n + m).fill(-1);
+    supply.forEach((s, i) => {
+      if (s > EPSILON) distance[i] = 0;
+    });
+
+    // Bellman-Ford, since sending flow back has negative cost
+    for (let round = 0; round < n + m; round++) {
+      let changed = false;
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < m; j++) {
+          if (distance[i] + cost[i][j] < distance[n + j] - EPSILON) {
+            distance[n + j] = distance[i] + cost[i][j];
+            previous[n + j] = i;
+            changed = true;
+          }
+          if (flow[i][j] > EPSILON && distance[n + j] - cost[i][j] < distance[i] - EPSILON) {
+            distance[i] = distance[n + j] - cost[i][j];
+            previous[i] = n + j;
+            changed = true;
+          }
+        }
+      }
+      if (!changed) break;
+    }
+
+    let end = -1;
+    for (let j = 0; j < m; j++) {
+      if (demand[j] > EPSILON && distance[n + j] < Infinity && (end < 0 || distance[n + j] < distance[end])) end = n + j;
+    }
+    if (end < 0) return total;
+
+    // Walk the path back to its source to find how much it can carry
+    let amount = demand[end - n];
+    let node = end;
+    while (previous[node] >= 0) {
+      const before = previous[node];
+      if (node < n) amount = Math.min(amount, flow[node][before - n]);
+      node = before;
+    }
+    amount = Math.min(amount, supply[node]);
+
+    supply[node] -= amount;
+    demand[end - n] -= amount;
+    node = end;
+    while (previous[node] >= 0) {
+      const before = previous[node];
+      if (node >= n) {
+        flow[before][node - n] += amount;
+        total += amount * cost[before][node - n];
+      } else {
+        flow[node][before - n] -= amount;
+        total -= amount * cost[node][before - n];
+      }
+      node = before;
+    }
+  }
+};
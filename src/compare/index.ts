@@ -0,0 +1,3 @@
+export * from './paletteDiff';
+export * from './emd';
+export * from './similarArtworks';
@@ -0,0 +1,54 @@
+import { ArtworkAnalysis, hexToRgb, KeyColor } from '../analysis';
+import { diffPalettes, groupPaletteColors } from './paletteDiff';
+
+const key = (hex: string, coverage = 25): KeyColor => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label: 'Vibrant',
+  population: coverage,
+  percentage: coverage,
+  coverage,
+  verticalPosition: 0.5,
+  spatial: null,
+});
+
+const monochrome = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const makeAnalysis = (colors: KeyColor[], background = '#f0e4c8'): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: background, rgb: hexToRgb(background)!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors: colors,
+  coverage: { background: 100 - colors.reduce((sum, c) => sum + c.coverage, 0), unassigned: 0 },
+  black: monochrome,
+  white: monochrome,
+});
+
+test('classifies matched colors as shared, shifted or unique', () => {
+  const groups = groupPaletteColors([
+    [key('#148c8c'), key('#c8281e'), key('#1e3c8c')],
+    [key('#158d8b'), key('#e0603c')],
+  ]);
+
+  const byHex = (hex: string) => groups.find(g => g.colors[0]?.hex === hex)!;
+  expect(byHex('#148c8c').status).toBe('shared');
+  expect(byHex('#c8281e').status).toBe('shifted');
+  expect(byHex('#1e3c8c').status).toBe('unique');
+  expect(byHex('#1e3c8c').colors[1]).toBeNull();
+  expect(groups).toHaveLength(3);
+});
+
+test('matches each color to at most one group per palette', () => {
+  const groups = groupPaletteColors([[key('#148c8c')], [key('#148c8c'), key('#158d8b')]]);
+  expect(groups.map(g => g.status).sort()).toEqual(['shared', 'unique']);
+});
+
+test('scores identical palettes 100 and unrelated ones lower', () => {
+  const teal = makeAnalysis([key('#148c8c')]);
+  const red = makeAnalysis([key('#c8281e')]);
+  const { similarity } = diffPalettes([teal, teal, red]);
+
+  expect(similarity[0][1]).toBeCloseTo(100);
+  expect(similarity[0][2]).toBeLessThan(similarity[0][1]);
+  expect(similarity[0][2]).toBe(similarity[2][0]);
+});
@@ -0,0 +1,120 @@
+import { ArtworkAnalysis, colorDifference, ColorMetric, DEFAULT_COLOR_METRIC, KeyColor, RGB } from '../analysis';
+
+// How many tokens can be compared side by side
+export const MIN_COMPARE_TOKENS = 2;
+export const MAX_COMPARE_TOKENS = 4;
+
+// Colors this close across tokens are the same color
+export const SHARED_THRESHOLD = 10;
+// Colors further apart than this are never matched; between the two they are shifted
+export const SHIFTED_THRESHOLD = 25;
+// Palette distance at which similarity reaches 0
+const SIMILARITY_SCALE = 50;
+
+export type DiffStatus = 'shared' | 'shifted' | 'unique';
+
+// One row of the diff table: a color matched across the compared tokens
+export interface ColorGroup {
+  // One entry per compared token, null where the token has no matching color
+  colors: (KeyColor | null)[];
+  status: DiffStatus;
+  // Largest difference between any two matched colors in the group
+  spread: number;
+}
+
+export interface PaletteDiff {
+  groups: ColorGroup[];
+  // Palette similarity (0-100) for each pair of tokens, indexed [i][j]
+  similarity: number[][];
+}
+
+// Function to find the largest pairwise difference among the matched colors
+const getSpread = (colors: (KeyColor | null)[], metric: ColorMetric) => {
+  const present = colors.filter((c): c is KeyColor => c !== null);
+  let spread = 0;
+  present.forEach((a, i) => present.slice(i + 1).forEach(b => {
+    spread = Math.max(spread, colorDifference(a.rgb, b.rgb, metric));
+  }));
+  return spread;
+};
+
+// Function to group key colors across palettes. Each palette's colors are matched to
+// the existing groups closest-pair first, so every group holds at most one color per
+// palette; whatever stays unmatched starts a new group.
+export const groupPaletteColors = (palettes: KeyColor[][], metric: ColorMetric = DEFAULT_COLOR_METRIC) => {
+  const groups: (KeyColor | null)[][] = [];
+
+  palettes.forEach((palette, paletteIndex) => {
+    const candidates: { color: number; group: number; distance: number }[] = [];
+    palette.forEach((color, colorIndex) => {
+      groups.forEach((group, groupIndex) => {
+        const members = group.filter((c): c is KeyColor => c !== null);
+        // Compare against the farthest member so a group cannot drift along a chain
+        const distance = Math.max(...members.map(member => colorDifference(member.rgb, color.rgb, metric)));
+        if (distance <= SHIFTED_THRESHOLD) candidates.push({ color: colorIndex, group: groupIndex, distance });
+      });
+    });
+
+    const usedColors = new Set<number>();
+    const usedGroups = new Set<number>();
+    candidates
+      .sort((a, b) => a.distance - b.distance)
+      .forEach(({ color, group, distance }) => {
+        if (usedColors.has(color) || usedGroups.has(group)) return;
+        usedColors.add(color);
+        usedGroups.add(group);
+        groups[group][paletteIndex] = palette[color];
+      });
+
+    palette.forEach((color, colorIndex) => {
+      if (usedColors.has(colorIndex)) return;
+      const group: (KeyColor | null)[] = palettes.map(() => null);
+      group[paletteIndex] = color;
+      groups.push(group);
+    });
+  });
+
+  return groups.map((colors): ColorGroup => {
+    const spread = getSpread(colors, metric);
+    const present = colors.filter(c => c !== null).length;
+    const status: DiffStatus = present < 2 ? 'unique' : spread <= SHARED_THRESHOLD ? 'shared' : 'shifted';
+    return { colors, status, spread };
+  });
+};
+
+// A palette as weighted colors: key colors and the background by canvas coverage
+const getWeightedColors = (analysis: ArtworkAnalysis) => {
+  const colors: { rgb: RGB; weight: number }[] = [
+    { rgb: analysis.background.rgb, weight: analysis.coverage.background },
+    ...analysis.keyColors.map(c => ({ rgb: c.rgb, weight: c.coverage })),
+  ].filter(c => c.weight > 0);
+  const total = colors.reduce((sum, c) => sum + c.weight, 0);
+  return colors.map(c => ({ ...c, weight: total > 0 ? c.weight / total : 0 }));
+};
+
+// Function to measure the mean distance from each weighted color in one palette to
+// its nearest color in another
+const directedDistance = (
+  from: { rgb: RGB; weight: number }[],
+  to: { rgb: RGB; weight: number }[],
+  metric: ColorMetric
+) => from.reduce(
+  (sum, { rgb, weight }) => sum + weight * Math.min(...to.map(c => colorDifference(rgb, c.rgb, metric))),
+  0
+);
+
+// Function to score how alike two palettes are, 0 (unrelated) - 100 (identical),
+// from the coverage-weighted nearest-color distance in both directions
+export const paletteSimilarity = (a: ArtworkAnalysis, b: ArtworkAnalysis, metric: ColorMetric = DEFAULT_COLOR_METRIC) => {
+  const colorsA = getWeightedColors(a);
+  const colorsB = getWeightedColors(b);
+  if (colorsA.length === 0 || colorsB.length === 0) return 0;
+  const distance = (directedDistance(colorsA, colorsB, metric) + directedDistance(colorsB, colorsA, metric)) / 2;
+  return Math.max(0, 100 * (1 - distance / SIMILARITY_SCALE));
+};
+
+// Function to compare two or more analyses: grouped key colors and pairwise similarity
+export const diffPalettes = (analyses: ArtworkAnalysis[], metric: ColorMetric = DEFAULT_COLOR_METRIC): PaletteDiff => ({
+  groups: groupPaletteColors(analyses.map(a => a.keyColors), metric),
+  similarity: analyses.map((a, i) => analyses.map((b, j) => (i === j ? 100 : paletteSimilarity(a, b, metric)))),
+});
@@ -0,0 +1,65 @@
+import { ArtworkAnalysis, hexToRgb, KeyColor } from '../analysis';
+import { earthMoversDistance } from './emd';
+import { findSimilarArtworks, paletteDistance } from './similarArtworks';
+
+const key = (hex: string, percentage: number, verticalPosition = 0.5, coverage = percentage): KeyColor => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label: 'Vibrant',
+  population: percentage,
+  percentage,
+  coverage,
+  verticalPosition,
+  spatial: null,
+});
+
+const monochrome = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const makeAnalysis = (colors: KeyColor[], background = '#f0e4c8'): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: background, rgb: hexToRgb(background)!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors: colors,
+  coverage: { background: 50, unassigned: 0 },
+  black: monochrome,
+  white: monochrome,
+});
+
+test('computes the cheapest transport between two distributions', () => {
+  const cost = [[0, 1], [1, 0]];
+  expect(earthMoversDistance([0.5, 0.5], [0.5, 0.5], cost)).toBeCloseTo(0);
+  expect(earthMoversDistance([1, 0], [0.5, 0.5], cost)).toBeCloseTo(0.5);
+  // Greedy matching would pair 0→0 first and pay 10 for the rest; optimal is 0→1, 1→0
+  expect(earthMoversDistance([0.5, 0.5], [0.5, 0.5], [[1, 2], [2, 10]])).toBeCloseTo(2);
+});
+
+test('ranks palettes by color, coverage and vertical order', () => {
+  const teal = '#148c8c';
+  const red = '#c8281e';
+  const current = makeAnalysis([key(teal, 60, 0.2), key(red, 40, 0.8)]);
+  const index = new Map([
+    [1, current],
+    [2, makeAnalysis([key(red, 40, 0.2), key(teal, 60, 0.8)])],
+    [3, makeAnalysis([key(teal, 55, 0.2), key(red, 45, 0.8)])],
+    [4, makeAnalysis([key('#f0c828', 100, 0.5)])],
+  ]);
+
+  expect(paletteDistance(current, current)).toBeCloseTo(0);
+  expect(findSimilarArtworks(index, current, { exclude: 1 }).map(r => r.tokenId)).toEqual([3, 2, 4]);
+  expect(findSimilarArtworks(index, current, { exclude: 1, limit: 1 })).toHaveLength(1);
+});
+
+test('weighs palettes by canvas coverage rather than palette share', () => {
+  const teal = '#148c8c';
+  const red = '#c8281e';
+  const current = makeAnalysis([key(teal, 50, 0.5, 40), key(red, 50, 0.5, 10)]);
+  const index = new Map([
+    // Same palette shares as the current token, but the red covers most of the canvas
+    [1, makeAnalysis([key(teal, 50, 0.5, 10), key(red, 50, 0.5, 40)])],
+    // Different shares, same coverage
+    [2, makeAnalysis([key(teal, 20, 0.5, 40), key(red, 80, 0.5, 10)])],
+  ]);
+
+  expect(paletteDistance(current, index.get(2)!)).toBeCloseTo(0);
+  expect(findSimilarArtworks(index, current).map(r => r.tokenId)).toEqual([2, 1]);
+});
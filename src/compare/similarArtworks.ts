@@ -0,0 +1,79 @@
+import { ArtworkAnalysis, colorDifference, ColorMetric, DEFAULT_COLOR_METRIC, RGB } from '../analysis';
+import { earthMoversDistance } from './emd';
+
+export type SimilarityMode = 'palette' | 'background';
+
+export const SIMILARITY_MODES: { [mode in SimilarityMode]: string } = {
+  palette: 'Similar palette',
+  background: 'Similar background',
+};
+
+// ΔE added for a color sitting at the opposite end of the canvas, so palettes with the
+// same colors in a different vertical order are further apart
+const POSITION_WEIGHT = 30;
+export const DEFAULT_SIMILAR_COUNT = 12;
+
+export interface SimilarArtwork {
+  tokenId: number;
+  // Earth Mover's distance between palettes, or the background difference, in ΔE
+  distance: number;
+}
+
+interface PaletteSignature {
+  colors: { rgb: RGB; position: number }[];
+  weights: number[];
+}
+
+// A palette as a distribution: key colors weighted by the pixels they cover, normalized
+// over the key colors, and placed by vertical position
+const getSignature = (analysis: ArtworkAnalysis): PaletteSignature | null => {
+  const total = analysis.keyColors.reduce((sum, c) => sum + c.coverage, 0);
+  if (total <= 0) return null;
+  return {
+    colors: analysis.keyColors.map(c => ({ rgb: c.rgb, position: c.verticalPosition })),
+    weights: analysis.keyColors.map(c => c.coverage / total),
+  };
+};
+
+// Function to measure the Earth Mover's distance between two palettes, over color and
+// vertical position
+export const paletteDistance = (a: ArtworkAnalysis, b: ArtworkAnalysis, metric: ColorMetric = DEFAULT_COLOR_METRIC) => {
+  const from = getSignature(a);
+  const to = getSignature(b);
+  if (!from || !to) return Infinity;
+  const cost = from.colors.map(x => to.colors.map(y => (
+    colorDifference(x.rgb, y.rgb, metric) + POSITION_WEIGHT * Math.abs(x.position - y.position)
+  )));
+  return earthMoversDistance(from.weights, to.weights, cost);
+};
+
+// Function to compare backgrounds end to end, so a gradient only matches a similar gradient
+export const backgroundDistance = (a: ArtworkAnalysis, b: ArtworkAnalysis, metric: ColorMetric = DEFAULT_COLOR_METRIC) => {
+  const ends = ({ background }: ArtworkAnalysis) => (
+    background.gradient ? [background.gradient.from, background.gradient.to] : [background.rgb, background.rgb]
+  );
+  const [fromA, toA] = ends(a);
+  const [fromB, toB] = ends(b);
+  return (colorDifference(fromA, fromB, metric) + colorDifference(toA, toB, metric)) / 2;
+};
+
+// Function to rank the indexed tokens closest to an analysis, leaving out the token itself
+export const findSimilarArtworks = (
+  index: Map<number, ArtworkAnalysis>,
+  analysis: ArtworkAnalysis,
+  { mode = 'palette', exclude = null, limit = DEFAULT_SIMILAR_COUNT, metric = DEFAULT_COLOR_METRIC }: {
+    mode?: SimilarityMode;
+    exclude?: number | null;
+    limit?: number;
+    metric?: ColorMetric;
+  } = {}
+): SimilarArtwork[] => {
+  const distance = mode === 'palette' ? paletteDistance : backgroundDistance;
+  const results: SimilarArtwork[] = [];
+  index.forEach((other, tokenId) => {
+    if (tokenId === exclude) return;
+    const d = distance(analysis, other, metric);
+    if (Number.isFinite(d)) results.push({ tokenId, distance: d });
+  });
+  return results.sort((a, b) => a.distance - b.distance || a.tokenId - b.tokenId).slice(0, limit);
+};
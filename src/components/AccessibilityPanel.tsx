@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  ButtonGroup,
+  Collapse,
+  Flex,
+  Grid,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+} from '@chakra-ui/react';
+import {
+  buildContrastMatrix,
+  CVD_TYPES,
+  CvdType,
+  findCvdConfusions,
+  getWcagLevel,
+  simulateCvd,
+  simulateCvdPixels,
+  WcagLevel,
+} from '../accessibility';
+import { ArtworkAnalysis, PixelData, rgbToHex } from '../analysis';
+
+const LEVEL_COLORS: { [level in WcagLevel]: string } = {
+  AAA: 'green',
+  AA: 'teal',
+  'AA Large': 'yellow',
+  Fail: 'red',
+};
+
+interface AccessibilityPanelProps {
+  analysis: ArtworkAnalysis;
+  // Needed for the simulated artwork; the palette parts work without it
+  pixels: PixelData | null;
+}
+
+// Small swatch with the color's name as a tooltip
+function Swatch({ hex, name, size = '16px' }: { hex: string; name: string; size?: string }) {
+  return <Box w={size} h={size} borderRadius="sm" bg={hex} border="1px solid" borderColor="gray.200" title={name} />;
+}
+
+// Artwork redrawn as seen with a color vision deficiency
+function SimulatedArtwork({ pixels, type }: { pixels: PixelData; type: CvdType }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const simulated = simulateCvdPixels(pixels, type);
+    canvas.width = simulated.width;
+    canvas.height = simulated.height;
+    const imageData = ctx.createImageData(simulated.width, simulated.height);
+    imageData.data.set(simulated.data);
+    ctx.putImageData(imageData, 0, 0);
+  }, [pixels, type]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-label={`Artwork simulated with ${CVD_TYPES[type].toLowerCase()}`}
+      style={{ width: '100%', height: 'auto', borderRadius: 'var(--chakra-radii-md)' }}
+    />
+  );
+}
+
+// Contrast ratios between the palette colors, and how the artwork and palette look
+// with color vision deficiencies, with warnings for colors that become confusable
+function AccessibilityPanel({ analysis, pixels }: AccessibilityPanelProps) {
+  const { isOpen, onToggle } = useDisclosure();
+  const [simulation, setSimulation] = useState<CvdType>('deuteranopia');
+
+  // Background first, then the key colors top to bottom
+  const colors = useMemo(() => [
+    { name: 'Background', hex: analysis.background.hex, rgb: analysis.background.rgb },
+    ...analysis.keyColors.map(c => ({ name: c.label, hex: c.hex, rgb: c.rgb })),
+  ], [analysis]);
+  const matrix = useMemo(() => buildContrastMatrix(colors.map(c => c.rgb)), [colors]);
+  const confusions = useMemo(() => findCvdConfusions(colors.map(c => c.rgb)), [colors]);
+
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={8}>
+      <Flex justify="space-between" align="center">
+        <Flex align="center" gap={2}>
+          <Text fontSize="sm" color="gray.600">
+            Accessibility
+          </Text>
+          {confusions.length > 0 && (
+            <Badge colorScheme="orange">
+              {confusions.length} warning{confusions.length === 1 ? '' : 's'}
+            </Badge>
+          )}
+        </Flex>
+        <Button size="xs" variant="ghost" onClick={onToggle}>
+          {isOpen ? 'Hide' : 'Show'}
+        </Button>
+      </Flex>
+
+      <Collapse in={isOpen} animateOpacity unmountOnExit>
+        {/* Contrast Matrix */}
+        <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mt={5} mb={2}>
+          WCAG Contrast
+        </Text>
+        <Box overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th />
+                {colors.map((color, j) => (
+                  <Th key={j}>
+                    <Swatch hex={color.hex} name={`${color.name} ${color.hex.toUpperCase()}`} />
+                  </Th>
+                ))}
+              </Tr>
+            </Thead>
+            <Tbody>
+              {colors.map((color, i) => (
+                <Tr key={i}>
+                  <Td>
+                    <Flex align="center" gap={2}>
+                      <Swatch hex={color.hex} name={color.name} />
+                      <Text fontSize="xs" color="gray.600" whiteSpace="nowrap">
+                        {color.name}
+                      </Text>
+                    </Flex>
+                  </Td>
+                  {colors.map((_, j) => {
+                    if (i === j) {
+                      return <Td key={j} color="gray.300">—</Td>;
+                    }
+                    const level = getWcagLevel(matrix[i][j]);
+                    return (
+                      <Td key={j} whiteSpace="nowrap">
+                        <Text as="span" fontSize="xs" fontFamily="mono" mr={1}>
+                          {matrix[i][j].toFixed(1)}
+                        </Text>
+                        <Badge colorScheme={LEVEL_COLORS[level]} fontSize="0.6em">{level}</Badge>
+                      </Td>
+                    );
+                  })}
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </Box>
+
+        {/* Color Vision Deficiency Simulation */}
+        <Flex justify="space-between" align="center" mt={6} mb={3} wrap="wrap" gap={2}>
+          <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+            Simulation
+          </Text>
+          <ButtonGroup size="xs" isAttached variant="outline">
+            {(Object.keys(CVD_TYPES) as CvdType[]).map(type => (
+              <Button key={type} isActive={simulation === type} onClick={() => setSimulation(type)}>
+                {CVD_TYPES[type]}
+              </Button>
+            ))}
+          </ButtonGroup>
+        </Flex>
+        <Grid templateColumns={{ base: '1fr', lg: '3fr 1fr' }} gap={6}>
+          {pixels ? (
+            <SimulatedArtwork pixels={pixels} type={simulation} />
+          ) : (
+            <Flex h="200px" align="center" justify="center" bg="gray.50" borderRadius="md">
+              <Text fontSize="sm" color="gray.500">Loading pixels…</Text>
+            </Flex>
+          )}
+          <Box>
+            {colors.map((color, index) => {
+              const simulated = rgbToHex(simulateCvd(color.rgb, simulation));
+              return (
+                <Flex key={index} align="center" gap={2} mb={2}>
+                  <Swatch hex={color.hex} name={`${color.name} ${color.hex.toUpperCase()}`} size="24px" />
+                  <Text color="gray.400">→</Text>
+                  <Swatch hex={simulated} name={`Simulated ${simulated.toUpperCase()}`} size="24px" />
+                  <Text fontSize="xs" color="gray.600">
+                    {color.name}
+                  </Text>
+                </Flex>
+              );
+            })}
+          </Box>
+        </Grid>
+
+        {/* Warnings */}
+        <Box mt={6}>
+          {confusions.length === 0 ? (
+            <Text fontSize="sm" color="gray.500">
+              No palette colors become hard to tell apart under the simulated conditions.
+            </Text>
+          ) : confusions.map(({ type, a, b, original, simulated }, index) => (
+            <Alert key={index} status="warning" borderRadius="md" mb={2} fontSize="sm">
+              <AlertIcon />
+              {colors[a].name} {colors[a].hex.toUpperCase()} and {colors[b].name} {colors[b].hex.toUpperCase()} look
+              alike with {CVD_TYPES[type].toLowerCase()} (ΔE {original.toFixed(0)} → {simulated.toFixed(1)})
+            </Alert>
+          ))}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+}
+
+export default AccessibilityPanel;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  Flex,
+  Input,
+  Select,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Text,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { COLOR_METRICS, ColorMetric } from '../analysis';
+import {
+  DEFAULT_TUNING,
+  isDefaultTuning,
+  loadPresets,
+  savePresets,
+  Tuning,
+  TUNING_PARAMETERS,
+  TuningParameter,
+  TuningPreset,
+} from '../tuning';
+
+interface AdvancedSettingsProps {
+  tuning: Tuning;
+  // Name of the active preset, null for hand-tuned or default values
+  preset: string | null;
+  onChange: (tuning: Tuning, preset: string | null) => void;
+  // Color difference the analysis and highlight use; kept apart from presets
+  metric: ColorMetric;
+  onMetricChange: (metric: ColorMetric) => void;
+}
+
+const GROUP_TITLES: { [group in TuningParameter['group']]: string } = {
+  analysis: 'Analysis',
+  display: 'Color Visualization',
+};
+
+// Collapsible panel exposing the analysis thresholds as sliders, with named presets
+// saved in local storage. Values are committed when a slider is released, which
+// re-runs the analysis.
+function AdvancedSettings({ tuning, preset, onChange, metric, onMetricChange }: AdvancedSettingsProps) {
+  const { isOpen, onToggle } = useDisclosure();
+  const [draft, setDraft] = useState(tuning);
+  const [presets, setPresets] = useState<TuningPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+
+  // Follow the URL, e.g. on back/forward or when a preset is picked
+  useEffect(() => setDraft(tuning), [tuning]);
+
+  const updatePresets = (next: TuningPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    updatePresets([...presets.filter(p => p.name !== name), { name, tuning: draft }]);
+    setPresetName('');
+    onChange(draft, name);
+  };
+
+  const deletePreset = () => {
+    updatePresets(presets.filter(p => p.name !== preset));
+    onChange(tuning, null);
+  };
+
+  const selectPreset = (name: string) => {
+    const selected = presets.find(p => p.name === name);
+    if (selected) onChange(selected.tuning, selected.name);
+  };
+
+  return (
+    <Box
+      bg="white"
+      p={6}
+      borderRadius="lg"
+      boxShadow="sm"
+      border="1px"
+      borderColor="gray.100"
+      mt={4}
+    >
+      <Flex justify="space-between" align="center">
+        <Text fontSize="sm" color="gray.600">
+          Advanced{preset ? ` · ${preset}` : isDefaultTuning(tuning) ? '' : ' · custom'}
+        </Text>
+        <Button size="xs" variant="ghost" onClick={onToggle}>
+          {isOpen ? 'Hide' : 'Show'}
+        </Button>
+      </Flex>
+
+      <Collapse in={isOpen} animateOpacity unmountOnExit>
+        <Flex gap={2} mt={4}>
+          <Select
+            size="sm"
+            aria-label="Preset"
+            placeholder="Saved presets"
+            value={preset && presets.some(p => p.name === preset) ? preset : ''}
+            onChange={(e) => selectPreset(e.target.value)}
+          >
+            {presets.map(p => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={deletePreset}
+            isDisabled={!preset || !presets.some(p => p.name === preset)}
+          >
+            Delete
+          </Button>
+        </Flex>
+        <Flex gap={2} mt={2}>
+          <Input
+            size="sm"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') savePreset();
+            }}
+          />
+          <Button size="sm" variant="outline" onClick={savePreset} isDisabled={!presetName.trim()}>
+            Save
+          </Button>
+        </Flex>
+
+        <Box mt={5}>
+          <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mb={2}>
+            Color Difference
+          </Text>
+          <Select
+            size="sm"
+            aria-label="Color difference metric"
+            value={metric}
+            onChange={(e) => onMetricChange(e.target.value as ColorMetric)}
+          >
+            {(Object.keys(COLOR_METRICS) as ColorMetric[]).map(m => (
+              <option key={m} value={m}>
+                {COLOR_METRICS[m]}
+              </option>
+            ))}
+          </Select>
+        </Box>
+
+        {(['analysis', 'display'] as const).map(group => (
+          <Box key={group} mt={5}>
+            <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mb={2}>
+              {GROUP_TITLES[group]}
+            </Text>
+            {TUNING_PARAMETERS.filter(p => p.group === group).map(({ key, label, description, min, max, step }) => (
+              <Box key={key} mb={3} title={description}>
+                <Flex justify="space-between">
+                  <Text fontSize="xs" color="gray.600">
+                    {label}
+                  </Text>
+                  <Text fontSize="xs" fontFamily="mono" color={draft[key] === DEFAULT_TUNING[key] ? 'gray.400' : 'brand.500'}>
+                    {draft[key]}
+                  </Text>
+                </Flex>
+                <Slider
+                  aria-label={label}
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={draft[key]}
+                  onChange={(value) => setDraft(prev => ({ ...prev, [key]: value }))}
+                  onChangeEnd={(value) => onChange({ ...draft, [key]: value }, null)}
+                >
+                  <SliderTrack>
+                    <SliderFilledTrack />
+                  </SliderTrack>
+                  <SliderThumb />
+                </Slider>
+              </Box>
+            ))}
+          </Box>
+        ))}
+
+        <Button
+          size="xs"
+          variant="outline"
+          onClick={() => onChange(DEFAULT_TUNING, null)}
+          isDisabled={isDefaultTuning(tuning) && !preset}
+        >
+          Reset to defaults
+        </Button>
+      </Collapse>
+    </Box>
+  );
+}
+
+export default AdvancedSettings;
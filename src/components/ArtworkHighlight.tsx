@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+import { Box, Image as ChakraImage } from '@chakra-ui/react';
+import { ArtworkAnalysis, buildHighlightMask, ColorMetric, PixelData } from '../analysis';
+
+interface ArtworkHighlightProps {
+  src: string;
+  alt: string;
+  pixels: PixelData | null;
+  analysis: ArtworkAnalysis | null;
+  // Indices into `analysis.keyColors`
+  selected: number[];
+  metric: ColorMetric;
+  tolerance: number;
+}
+
+// Artwork image with a canvas overlay that dims everything outside the selected key colors
+function ArtworkHighlight({ src, alt, pixels, analysis, selected, metric, tolerance }: ArtworkHighlightProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const active = selected.length > 0 && pixels !== null && analysis !== null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !active) return;
+
+    const mask = buildHighlightMask(
+      pixels!,
+      analysis!.keyColors.map(c => c.rgb),
+      selected,
+      analysis!.background,
+      metric,
+      tolerance
+    );
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const imageData = ctx.createImageData(mask.width, mask.height);
+    imageData.data.set(mask.data);
+    ctx.putImageData(imageData, 0, 0);
+  }, [active, pixels, analysis, selected, metric, tolerance]);
+
+  return (
+    <Box position="relative">
+      <ChakraImage
+        src={src}
+        alt={alt}
+        w="100%"
+        h="auto"
+        objectFit="contain"
+        borderRadius="md"
+        crossOrigin="anonymous"
+      />
+      {active && (
+        <canvas
+          ref={canvasRef}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            borderRadius: 'var(--chakra-radii-md)',
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+    </Box>
+  );
+}
+
+export default ArtworkHighlight;
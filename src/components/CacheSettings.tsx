@@ -0,0 +1,76 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Button, Flex, Switch, Text } from '@chakra-ui/react';
+import { CacheStats, clearCache, getCacheStats } from '../cache';
+
+interface CacheSettingsProps {
+  cacheImages: boolean;
+  onCacheImagesChange: (cacheImages: boolean) => void;
+  // Changes whenever something may have been written to the cache, to refresh the stats
+  revision: unknown;
+}
+
+// Function to format a byte count for display
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Settings panel for the persistent analysis cache: size, image caching and clearing
+function CacheSettings({ cacheImages, onCacheImagesChange, revision }: CacheSettingsProps) {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const refresh = useCallback(() => {
+    getCacheStats().then(setStats);
+  }, []);
+
+  useEffect(refresh, [refresh, revision]);
+
+  const clear = async () => {
+    setClearing(true);
+    await clearCache();
+    setClearing(false);
+    refresh();
+  };
+
+  return (
+    <Box
+      bg="white"
+      p={6}
+      borderRadius="lg"
+      boxShadow="sm"
+      border="1px"
+      borderColor="gray.100"
+      mt={4}
+    >
+      <Text fontSize="sm" color="gray.600" mb={3}>
+        Settings
+      </Text>
+      <Flex justify="space-between" align="center" mb={3}>
+        <Text fontSize="sm" color="gray.600">
+          Cache artwork images
+        </Text>
+        <Switch isChecked={cacheImages} onChange={(e) => onCacheImagesChange(e.target.checked)} />
+      </Flex>
+      <Flex justify="space-between" align="center">
+        <Text fontSize="xs" color="gray.500">
+          {stats
+            ? `${stats.analyses} analyses · ${stats.images} images · ${formatBytes(stats.bytes)}`
+            : 'Reading cache…'}
+        </Text>
+        <Button
+          size="xs"
+          variant="outline"
+          onClick={clear}
+          isLoading={clearing}
+          isDisabled={!stats || stats.analyses + stats.images === 0}
+        >
+          Clear cache
+        </Button>
+      </Flex>
+    </Box>
+  );
+}
+
+export default CacheSettings;
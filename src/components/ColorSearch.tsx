@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  CloseButton,
+  Flex,
+  Grid,
+  Input,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Text,
+} from '@chakra-ui/react';
+import { ArtworkAnalysis, hexToRgb, RGB } from '../analysis';
+import { useCollectionIndex } from '../hooks/useCollectionIndex';
+import { searchByColor } from '../search';
+import { ArtBlocksProject } from '../projects';
+import TokenTile from './TokenTile';
+
+interface ColorSearchProps {
+  project: ArtBlocksProject;
+  sessionAnalyses: Map<number, ArtworkAnalysis>;
+  onSelect: (tokenId: number) => void;
+}
+
+const RESULT_THUMBNAIL_SIZE = 140;
+
+// Color-query mode: rank indexed tokens by how well their palette matches picked colors
+function ColorSearch({ project, sessionAnalyses, onSelect }: ColorSearchProps) {
+  const index = useCollectionIndex(project, sessionAnalyses);
+  const [targets, setTargets] = useState<string[]>(['#148c8c']);
+  const [matchBackground, setMatchBackground] = useState(false);
+  const [background, setBackground] = useState('#f0e4c8');
+  const [tolerance, setTolerance] = useState(15);
+
+  const results = useMemo(() => searchByColor(index, {
+    targets: targets.map(hex => hexToRgb(hex)).filter((rgb): rgb is RGB => rgb !== null),
+    background: matchBackground ? hexToRgb(background) : null,
+    tolerance,
+  }), [index, targets, matchBackground, background, tolerance]);
+
+  return (
+    <Box>
+      <Box
+        bg="white"
+        p={6}
+        borderRadius="lg"
+        boxShadow="sm"
+        border="1px"
+        borderColor="gray.100"
+        mb={6}
+      >
+        <Text fontSize="sm" color="gray.600" mb={2}>
+          Target Colors
+        </Text>
+        <Flex wrap="wrap" gap={3} mb={4} align="center">
+          {targets.map((color, i) => (
+            <Flex key={i} align="center" gap={1}>
+              <Input
+                type="color"
+                value={color}
+                onChange={(e) => setTargets(targets.map((c, j) => (j === i ? e.target.value : c)))}
+                w="56px"
+                h="40px"
+                p={1}
+              />
+              <CloseButton
+                size="sm"
+                isDisabled={targets.length === 1 && !matchBackground}
+                onClick={() => setTargets(targets.filter((_, j) => j !== i))}
+              />
+            </Flex>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setTargets([...targets, '#808080'])}>
+            Add color
+          </Button>
+        </Flex>
+
+        <Flex align="center" gap={3} mb={4}>
+          <Checkbox isChecked={matchBackground} onChange={(e) => setMatchBackground(e.target.checked)}>
+            <Text fontSize="sm" color="gray.600">Background</Text>
+          </Checkbox>
+          <Input
+            type="color"
+            value={background}
+            onChange={(e) => setBackground(e.target.value)}
+            isDisabled={!matchBackground}
+            w="56px"
+            h="40px"
+            p={1}
+          />
+        </Flex>
+
+        <Text fontSize="sm" color="gray.600" mb={2}>
+          Tolerance: ΔE {tolerance}
+        </Text>
+        <Slider min={2} max={50} step={1} value={tolerance} onChange={setTolerance}>
+          <SliderTrack>
+            <SliderFilledTrack />
+          </SliderTrack>
+          <SliderThumb />
+        </Slider>
+      </Box>
+
+      <Text fontSize="sm" color="gray.500" mb={4}>
+        {index.size === 0
+          ? 'No palette index available. Generate a dataset with the batch CLI or analyze tokens in the viewer.'
+          : `${results.length} matches across ${index.size} indexed tokens`}
+      </Text>
+
+      <Grid templateColumns="repeat(auto-fill, minmax(200px, 1fr))" gap={4}>
+        {results.map(result => (
+          <TokenTile
+            key={result.tokenId}
+            project={project}
+            tokenId={result.tokenId}
+            analysis={index.get(result.tokenId)}
+            thumbnailSize={RESULT_THUMBNAIL_SIZE}
+            captionHeight={28}
+            detail={`${Math.round(result.score * 100)}% match`}
+            onClick={() => onSelect(result.tokenId)}
+          />
+        ))}
+      </Grid>
+    </Box>
+  );
+}
+
+export default ColorSearch;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Box } from '@chakra-ui/react';
+import { KeyColor } from '../analysis';
+
+interface ColorStackProps {
+  keyColors: KeyColor[];
+  backgroundColor: string;
+  height: string;
+  // Compact stacks (gallery tiles) skip the hover effects and percentage labels
+  compact?: boolean;
+  // Label bands with their share of the key colors (legacy) rather than the raw percentage
+  normalizeLabels?: boolean;
+  // `stack` sizes bands by percentage in the given order; `extent` places each
+  // band over the rows its pixels actually span, side by side
+  layout?: 'stack' | 'extent';
+  // Smallest band height and the empty margin above and below the bands, both in percent
+  minBandHeight?: number;
+  padding?: number;
+}
+
+// Stack of horizontal bands, one per key color, sized by percentage and ordered
+// by vertical position in the image
+function ColorStack({
+  keyColors,
+  backgroundColor,
+  height,
+  compact = false,
+  normalizeLabels = true,
+  layout = 'stack',
+  minBandHeight: minHeightPercent = 10,
+  padding = 10,
+}: ColorStackProps) {
+  // Calculate total percentage and set minimum height
+  const availableHeight = 100 - (2 * padding); // Available height after padding
+  const totalPercentage = keyColors.reduce((sum, c) => sum + c.percentage, 0);
+
+  // First pass: Calculate initial heights with minimum enforcement
+  // In coverage mode nothing may be assigned to any key color; the bands then share the height equally
+  const initialHeights = keyColors.map(({ percentage }) => {
+    const share = totalPercentage > 0 ? percentage / totalPercentage : 1 / keyColors.length;
+    const heightPercent = share * availableHeight;
+    return Math.max(heightPercent, minHeightPercent);
+  });
+
+  // Calculate total height after minimum enforcement
+  const totalHeight = initialHeights.reduce((sum, h) => sum + h, 0);
+
+  // Second pass: Scale heights to fit available space
+  const scalingFactor = availableHeight / totalHeight;
+  const finalHeights = initialHeights.map(h => h * scalingFactor);
+
+  // Extent layout: one lane per color, spanning its first to last row
+  const laneWidth = availableHeight / Math.max(keyColors.length, 1);
+  const minExtentPercent = 2;
+  const getExtent = (color: KeyColor) => {
+    const rows = color.spatial?.rows ?? { min: color.verticalPosition, max: color.verticalPosition };
+    const top = padding + rows.min * availableHeight;
+    return { top, height: Math.max((rows.max - rows.min) * availableHeight, minExtentPercent) };
+  };
+
+  // Start at top padding
+  let currentTop = padding;
+
+  return (
+    <Box
+      w="100%"
+      h={height}
+      position="relative"
+      borderRadius="md"
+      overflow="hidden"
+      bg={backgroundColor}
+      boxShadow={compact ? 'sm' : 'md'}
+      border="1px solid"
+      borderColor="gray.200"
+    >
+      {/* Colors are ordered by their vertical position in the image */}
+      {keyColors.map((color, index) => {
+        if (layout === 'extent') {
+          const extent = getExtent(color);
+          return (
+            <Box
+              key={index}
+              position="absolute"
+              left={`${padding + index * laneWidth}%`}
+              width={`${laneWidth}%`}
+              height={`${extent.height}%`}
+              top={`${extent.top}%`}
+              bg={color.hex}
+              title={compact ? undefined : `${color.label} ${color.hex.toUpperCase()}`}
+            />
+          );
+        }
+
+        const bandHeight = finalHeights[index];
+        const top = currentTop;
+        currentTop += bandHeight;
+
+        if (compact) {
+          return (
+            <Box
+              key={index}
+              position="absolute"
+              left={`${padding}%`}
+              width={`${100 - (2 * padding)}%`}
+              height={`${bandHeight}%`}
+              top={`${top}%`}
+              bg={color.hex}
+            />
+          );
+        }
+
+        // Calculate the actual percentage for display
+        const actualPercentage = Math.round(normalizeLabels && totalPercentage > 0
+          ? color.percentage / totalPercentage * 100
+          : color.percentage);
+
+        return (
+          <Box
+            key={index}
+            position="absolute"
+            left={`${padding}%`}
+            width={`${100 - (2 * padding)}%`}
+            height={`${bandHeight}%`}
+            bg={color.hex}
+            top={`${top}%`}
+            transform="auto"
+            translateY="0"
+            opacity={0.9}
+            transition="all 0.2s"
+            _hover={{
+              opacity: 1,
+              width: `${100 - (1.5 * padding)}%`,
+              left: `${padding * 0.75}%`,
+            }}
+          >
+            <Box
+              position="absolute"
+              right="0"
+              top="50%"
+              transform="translateY(-50%)"
+              bg="rgba(0,0,0,0.6)"
+              color="white"
+              fontSize="xs"
+              px={2}
+              py={1}
+              borderRadius="md"
+              opacity={0}
+              _groupHover={{ opacity: 1 }}
+            >
+              {actualPercentage}%
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+export default ColorStack;
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Grid,
+  Image as ChakraImage,
+  Input,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { ArtworkAnalysis, backgroundToCss, KeyColor } from '../analysis';
+import { isAbortError } from '../analysis/runAnalysis';
+import { analyzeToken } from '../artwork';
+import { diffPalettes, DiffStatus, MAX_COMPARE_TOKENS, MIN_COMPARE_TOKENS } from '../compare';
+import { useCollectionIndex } from '../hooks/useCollectionIndex';
+import { ArtBlocksProject, formatTokenId, getArtworkImageUrl, getTokenLabel, isValidTokenId } from '../projects';
+import ColorStack from './ColorStack';
+
+const STATUS_COLORS: { [status in DiffStatus]: string } = {
+  shared: 'green',
+  shifted: 'yellow',
+  unique: 'purple',
+};
+
+interface CompareViewProps {
+  project: ArtBlocksProject;
+  tokens: number[];
+  onTokensChange: (tokens: number[]) => void;
+  sessionAnalyses: Map<number, ArtworkAnalysis>;
+  // Called for tokens this view had to analyze, so other views can reuse them
+  onAnalyzed: (tokenId: number, analysis: ArtworkAnalysis) => void;
+  onSelect: (tokenId: number) => void;
+}
+
+// Function to parse a comma- or space-separated list of token numbers
+const parseTokenList = (project: ArtBlocksProject, text: string) => {
+  const ids = text.split(/[\s,]+/).filter(Boolean);
+  if (ids.some(id => !/^\d+$/.test(id) || !isValidTokenId(project, id))) return null;
+  return Array.from(new Set(ids.map(Number)));
+};
+
+// Swatch and hex code for one cell of the diff table
+function ColorCell({ color }: { color: KeyColor | null }) {
+  if (!color) {
+    return <Text color="gray.300">—</Text>;
+  }
+  return (
+    <Flex align="center" gap={2}>
+      <Box w="20px" h="20px" borderRadius="sm" bg={color.hex} border="1px solid" borderColor="gray.200" />
+      <Text fontFamily="mono" fontSize="xs">{color.hex.toUpperCase()}</Text>
+    </Flex>
+  );
+}
+
+// Compare mode: two to four tokens side by side with a palette diff and similarity scores
+function CompareView({ project, tokens, onTokensChange, sessionAnalyses, onAnalyzed, onSelect }: CompareViewProps) {
+  const index = useCollectionIndex(project, sessionAnalyses);
+  const [input, setInput] = useState(tokens.map(id => formatTokenId(project, id)).join(', '));
+  const [failed, setFailed] = useState<number[]>([]);
+  const inputTokens = parseTokenList(project, input);
+  const inputValid = inputTokens !== null
+    && inputTokens.length >= MIN_COMPARE_TOKENS
+    && inputTokens.length <= MAX_COMPARE_TOKENS;
+
+  // Keep the input in step with the URL
+  useEffect(() => {
+    setInput(tokens.map(id => formatTokenId(project, id)).join(', '));
+  }, [project, tokens]);
+
+  // A new selection gets another try at tokens that failed before
+  const selection = `${project.slug}:${tokens.join(',')}`;
+  useEffect(() => {
+    setFailed([]);
+  }, [selection]);
+
+  // Analyze compared tokens that are neither in the dataset nor in this session, one at a time
+  const missing = tokens.filter(tokenId => !index.has(tokenId) && !failed.includes(tokenId));
+  const nextMissing = missing[0];
+  useEffect(() => {
+    if (nextMissing === undefined) return;
+    const controller = new AbortController();
+    analyzeToken(project, nextMissing, controller.signal)
+      .then(analysis => onAnalyzed(nextMissing, analysis))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error(`Error analyzing token ${nextMissing}:`, error);
+        setFailed(prev => [...prev, nextMissing]);
+      });
+    return () => controller.abort();
+  }, [project, nextMissing, onAnalyzed]);
+
+  const analyses = useMemo(() => tokens.map(tokenId => index.get(tokenId)), [tokens, index]);
+  const diff = useMemo(() => {
+    const loaded = analyses.filter((a): a is ArtworkAnalysis => a !== undefined);
+    return loaded.length >= MIN_COMPARE_TOKENS && loaded.length === tokens.length ? diffPalettes(loaded) : null;
+  }, [analyses, tokens.length]);
+
+  return (
+    <Box>
+      <Box
+        bg="white"
+        p={6}
+        borderRadius="lg"
+        boxShadow="sm"
+        border="1px"
+        borderColor="gray.100"
+        mb={6}
+      >
+        <Text fontSize="sm" color="gray.600" mb={2}>
+          Tokens to compare ({MIN_COMPARE_TOKENS}–{MAX_COMPARE_TOKENS})
+        </Text>
+        <Flex gap={3}>
+          <Input
+            placeholder="e.g. 42, 108, 777"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && inputValid) onTokensChange(inputTokens!);
+            }}
+            isInvalid={input.trim() !== '' && !inputValid}
+          />
+          <Button colorScheme="brand" isDisabled={!inputValid} onClick={() => onTokensChange(inputTokens!)}>
+            Compare
+          </Button>
+        </Flex>
+      </Box>
+
+      {tokens.length > 0 && (
+        <Grid templateColumns={`repeat(${tokens.length}, 1fr)`} gap={4} mb={6}>
+          {tokens.map((tokenId, i) => (
+            <Box
+              key={tokenId}
+              bg="white"
+              p={4}
+              borderRadius="lg"
+              boxShadow="sm"
+              border="1px"
+              borderColor="gray.100"
+            >
+              <Button variant="link" size="sm" mb={3} onClick={() => onSelect(tokenId)}>
+                {getTokenLabel(project, tokenId)}
+              </Button>
+              <ChakraImage
+                src={getArtworkImageUrl(project, tokenId)}
+                alt={getTokenLabel(project, tokenId)}
+                w="100%"
+                borderRadius="md"
+                bg="gray.100"
+                mb={3}
+              />
+              {analyses[i] ? (
+                <ColorStack
+                  keyColors={analyses[i]!.keyColors}
+                  backgroundColor={backgroundToCss(analyses[i]!.background)}
+                  height="240px"
+                />
+              ) : (
+                <Flex h="240px" align="center" justify="center" borderRadius="md" bg="gray.50">
+                  {failed.includes(tokenId)
+                    ? <Text fontSize="sm" color="gray.500">Analysis failed</Text>
+                    : <Spinner color="gray.400" />}
+                </Flex>
+              )}
+            </Box>
+          ))}
+        </Grid>
+      )}
+
+      {diff && (
+        <>
+          <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={6}>
+            <Text fontSize="sm" color="gray.600" mb={3}>
+              Palette Similarity
+            </Text>
+            <Flex wrap="wrap" gap={4}>
+              {tokens.flatMap((a, i) => tokens.slice(i + 1).map((b, offset) => (
+                <Text key={`${a}-${b}`} fontSize="sm" color="gray.600">
+                  #{formatTokenId(project, a)} ↔ #{formatTokenId(project, b)}{' '}
+                  <Badge colorScheme="brand">{Math.round(diff.similarity[i][i + 1 + offset])}</Badge>
+                </Text>
+              )))}
+            </Flex>
+          </Box>
+
+          <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" overflowX="auto">
+            <Text fontSize="sm" color="gray.600" mb={3}>
+              Palette Diff
+            </Text>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Status</Th>
+                  {tokens.map(tokenId => <Th key={tokenId}>#{formatTokenId(project, tokenId)}</Th>)}
+                  <Th isNumeric title="Largest perceptual difference within the row">ΔE</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {diff.groups.map((group, row) => (
+                  <Tr key={row}>
+                    <Td>
+                      <Badge colorScheme={STATUS_COLORS[group.status]}>{group.status}</Badge>
+                    </Td>
+                    {group.colors.map((color, column) => (
+                      <Td key={column}>
+                        <ColorCell color={color} />
+                      </Td>
+                    ))}
+                    <Td isNumeric fontSize="xs" color="gray.500">
+                      {group.status === 'unique' ? '' : group.spread.toFixed(1)}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
+
+export default CompareView;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button, Menu, MenuButton, MenuItem, MenuList, useToast } from '@chakra-ui/react';
+import { RGB } from '../analysis';
+import { ColorCopyFormat, formatColor } from '../export';
+
+const COPY_FORMATS: ColorCopyFormat[] = ['hex', 'rgb', 'hsl', 'oklch'];
+
+interface CopyColorMenuProps {
+  rgb: RGB;
+}
+
+// Small menu that copies one color to the clipboard in a chosen notation
+function CopyColorMenu({ rgb }: CopyColorMenuProps) {
+  const toast = useToast();
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: `Copied ${value}`, status: 'success', duration: 1500 });
+    } catch (error) {
+      console.error('Error copying color:', error);
+      toast({ title: 'Could not copy to the clipboard', status: 'error', duration: 3000, isClosable: true });
+    }
+  };
+
+  return (
+    <Menu>
+      <MenuButton as={Button} size="xs" variant="ghost" w="100%" color="gray.500">
+        Copy
+      </MenuButton>
+      <MenuList fontSize="xs" fontFamily="mono" minW="auto">
+        {COPY_FORMATS.map(format => {
+          const value = formatColor(rgb, format);
+          return (
+            <MenuItem key={format} onClick={() => copy(value)}>
+              {value}
+            </MenuItem>
+          );
+        })}
+      </MenuList>
+    </Menu>
+  );
+}
+
+export default CopyColorMenu;
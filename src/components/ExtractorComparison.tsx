@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Badge, Box, Button, Flex, Grid, Spinner, Text } from '@chakra-ui/react';
+import { AnalysisOptions, ArtworkAnalysis, backgroundToCss, EXTRACTORS, ExtractorId, PixelData } from '../analysis';
+import { isAbortError, runAnalysis } from '../analysis/runAnalysis';
+import ColorStack from './ColorStack';
+
+interface ExtractorResult {
+  // Null when the backend failed on this image
+  analysis: ArtworkAnalysis | null;
+  milliseconds: number | null;
+}
+
+interface ExtractorComparisonProps {
+  pixels: PixelData | null;
+  // The viewer's own analysis and the backend behind it, reused instead of running it again
+  analysis: ArtworkAnalysis | null;
+  // Thresholds shared by every run; each backend replaces the extractor
+  options: Partial<AnalysisOptions>;
+  extractor: ExtractorId;
+  onUse: (extractor: ExtractorId) => void;
+}
+
+// Every palette backend run on the same pixels, side by side
+function ExtractorComparison({ pixels, analysis, options, extractor, onUse }: ExtractorComparisonProps) {
+  const [results, setResults] = useState<{ [id in ExtractorId]?: ExtractorResult }>({});
+
+  // Run the other backends one at a time, so only one extra worker is busy
+  useEffect(() => {
+    setResults({});
+    if (!pixels) return;
+    const controller = new AbortController();
+
+    (async () => {
+      for (const { id } of EXTRACTORS) {
+        if (id === extractor) continue;
+        const started = performance.now();
+        try {
+          // The worker takes ownership of the buffer it is given, so each run gets a copy
+          const copy = { ...pixels, data: new Uint8ClampedArray(pixels.data) };
+          const job = await runAnalysis(copy, { options: { ...options, extractor: id }, signal: controller.signal });
+          setResults(prev => ({ ...prev, [id]: { analysis: job.analysis, milliseconds: performance.now() - started } }));
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.error(`Error running the ${id} extractor:`, error);
+          setResults(prev => ({ ...prev, [id]: { analysis: null, milliseconds: null } }));
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [pixels, options, extractor]);
+
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={8}>
+      <Text fontSize="sm" color="gray.600" mb={4}>
+        Palette Extractors
+      </Text>
+      <Grid templateColumns={{ base: 'repeat(2, 1fr)', lg: `repeat(${EXTRACTORS.length}, 1fr)` }} gap={4}>
+        {EXTRACTORS.map(({ id, name, description }) => {
+          const result = id === extractor ? (analysis ? { analysis, milliseconds: null } : undefined) : results[id];
+          return (
+            <Box key={id}>
+              <Flex justify="space-between" align="center" mb={1}>
+                <Text fontWeight="medium" fontSize="sm" color="gray.700">
+                  {name}
+                </Text>
+                {id === extractor ? (
+                  <Badge colorScheme="brand">current</Badge>
+                ) : (
+                  <Button size="xs" variant="ghost" onClick={() => onUse(id)}>
+                    Use
+                  </Button>
+                )}
+              </Flex>
+              <Text fontSize="xs" color="gray.500" mb={3} minH="3em">
+                {description}
+              </Text>
+              {result?.analysis ? (
+                <>
+                  <ColorStack
+                    keyColors={result.analysis.keyColors}
+                    backgroundColor={backgroundToCss(result.analysis.background)}
+                    height="200px"
+                  />
+                  {result.analysis.keyColors.map((color, index) => (
+                    <Flex key={index} align="center" gap={2} mt={2}>
+                      <Box w="14px" h="14px" borderRadius="sm" bg={color.hex} border="1px solid" borderColor="gray.200" />
+                      <Text fontFamily="mono" fontSize="xs" color="gray.600" flex="1">
+                        {color.hex.toUpperCase()}
+                      </Text>
+                      <Text fontSize="xs" color="gray.500">
+                        {Math.round(color.percentage)}%
+                      </Text>
+                    </Flex>
+                  ))}
+                  {result.milliseconds !== null && (
+                    <Text fontSize="xs" color="gray.400" mt={2}>
+                      {Math.round(result.milliseconds)} ms
+                    </Text>
+                  )}
+                </>
+              ) : (
+                <Flex h="200px" align="center" justify="center" borderRadius="md" bg="gray.50">
+                  {result ? <Text fontSize="sm" color="gray.500">Extraction failed</Text> : <Spinner color="gray.400" />}
+                </Flex>
+              )}
+            </Box>
+          );
+        })}
+      </Grid>
+    </Box>
+  );
+}
+
+export default ExtractorComparison;
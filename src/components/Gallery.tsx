@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Box } from '@chakra-ui/react';
+import { ArtworkAnalysis } from '../analysis';
+import { useCollectionIndex } from '../hooks/useCollectionIndex';
+import { ArtBlocksProject } from '../projects';
+import TokenTile from './TokenTile';
+
+interface GalleryProps {
+  project: ArtBlocksProject;
+  // Analyses computed in this session, preferred over the precomputed dataset
+  sessionAnalyses: Map<number, ArtworkAnalysis>;
+  onSelect: (tokenId: number) => void;
+}
+
+const TILE_MIN_WIDTH = 200;
+const TILE_GAP = 16;
+// Thumbnail is square; the caption row sits underneath it
+const CAPTION_HEIGHT = 28;
+// Extra rows rendered above and below the viewport to hide pop-in while scrolling
+const OVERSCAN_ROWS = 2;
+
+// Virtualized grid of every token: only rows near the viewport are mounted
+function Gallery({ project, sessionAnalyses, onSelect }: GalleryProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0, scrollTop: 0 });
+  const index = useCollectionIndex(project, sessionAnalyses);
+
+  // Track the scroll container size so the column count follows the layout
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewport(v => ({ ...v, width: el.clientWidth, height: el.clientHeight }));
+    measure();
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(1, Math.floor((viewport.width + TILE_GAP) / (TILE_MIN_WIDTH + TILE_GAP)));
+  const tileWidth = viewport.width > 0 ? (viewport.width - (columns - 1) * TILE_GAP) / columns : TILE_MIN_WIDTH;
+  const thumbnailWidth = tileWidth * 0.7;
+  const rowHeight = thumbnailWidth + CAPTION_HEIGHT + TILE_GAP;
+  const rowCount = Math.ceil(project.tokenCount / columns);
+
+  const firstRow = Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS);
+
+  const tiles: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = 0; col < columns; col++) {
+      const tokenId = row * columns + col;
+      if (tokenId < project.tokenCount) tiles.push(tokenId);
+    }
+  }
+
+  return (
+    <Box
+      ref={scrollRef}
+      h="calc(100vh - 64px)"
+      overflowY="auto"
+      onScroll={(e) => {
+        const scrollTop = e.currentTarget.scrollTop;
+        setViewport(v => ({ ...v, scrollTop }));
+      }}
+    >
+      <Box position="relative" h={`${rowCount * rowHeight}px`}>
+        {tiles.map(tokenId => {
+          const analysis = index.get(tokenId);
+          const row = Math.floor(tokenId / columns);
+          const col = tokenId % columns;
+
+          return (
+            <Box
+              key={tokenId}
+              position="absolute"
+              top={`${row * rowHeight}px`}
+              left={`${col * (tileWidth + TILE_GAP)}px`}
+              w={`${tileWidth}px`}
+            >
+              <TokenTile
+                project={project}
+                tokenId={tokenId}
+                analysis={analysis}
+                thumbnailSize={thumbnailWidth}
+                captionHeight={CAPTION_HEIGHT}
+                onClick={() => onSelect(tokenId)}
+              />
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
+
+export default Gallery;
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  CheckboxGroup,
+  Collapse,
+  Flex,
+  Image,
+  Progress,
+  Slider,
+  SliderFilledTrack,
+  SliderThumb,
+  SliderTrack,
+  Stack,
+  Text,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { ArtworkAnalysis, PixelData } from '../analysis';
+import { isAbortError } from '../analysis/runAnalysis';
+import { downloadFile, slugify } from '../export';
+import {
+  GEOMETRIZE_SHAPE_TYPES,
+  GeometrizeResult,
+  GeometrizeShapeType,
+  runGeometrize,
+  toGeometrizeSvg,
+} from '../geometrize';
+
+const DEFAULT_SHAPE_COUNT = 200;
+const MAX_SHAPE_COUNT = 1000;
+
+interface GeometrizePanelProps {
+  analysis: ArtworkAnalysis;
+  pixels: PixelData | null;
+  // Name used for the exported file, e.g. `Meridian #042`
+  title: string | null;
+}
+
+interface GeometrizeViewProps extends GeometrizePanelProps {
+  shapeCount: number;
+  shapeTypes: GeometrizeShapeType[];
+}
+
+// The artwork rebuilt from shapes, refitted whenever the pixels or settings change
+function GeometrizeView({ analysis, pixels, title, shapeCount, shapeTypes }: GeometrizeViewProps) {
+  const [result, setResult] = useState<GeometrizeResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setResult(null);
+    setFailed(false);
+    if (!pixels || shapeTypes.length === 0) return;
+    const controller = new AbortController();
+    setRunning(true);
+
+    runGeometrize(
+      {
+        pixels,
+        palette: analysis.keyColors.map(color => color.rgb),
+        background: analysis.background.rgb,
+        shapeCount,
+        shapeTypes,
+      },
+      { onProgress: setResult, signal: controller.signal }
+    )
+      .then(() => setRunning(false))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error geometrizing artwork:', error);
+        setFailed(true);
+        setRunning(false);
+      });
+
+    return () => controller.abort();
+  }, [analysis, pixels, shapeCount, shapeTypes]);
+
+  const svg = useMemo(() => (result ? toGeometrizeSvg(result) : null), [result]);
+
+  if (failed) {
+    return <Text fontSize="sm" color="red.500" mt={4}>The artwork could not be geometrized.</Text>;
+  }
+
+  return (
+    <Box mt={4}>
+      {svg ? (
+        <Image
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          alt="Artwork rebuilt from primitive shapes"
+          w="100%"
+          borderRadius="md"
+        />
+      ) : (
+        <Flex h="200px" align="center" justify="center" bg="gray.50" borderRadius="md">
+          <Text fontSize="sm" color="gray.500">
+            {shapeTypes.length === 0 ? 'Pick at least one shape type' : 'Preparing…'}
+          </Text>
+        </Flex>
+      )}
+      {result && (
+        <>
+          <Progress
+            value={(result.shapes.length / shapeCount) * 100}
+            size="xs"
+            colorScheme="brand"
+            borderRadius="full"
+            mt={3}
+            isAnimated={running}
+          />
+          <Flex justify="space-between" align="center" mt={2}>
+            <Text fontSize="xs" color="gray.500">
+              {result.shapes.length} / {shapeCount} shapes · error {result.error.toFixed(1)}%
+              {!running && result.shapes.length < shapeCount && ' · no further improvement'}
+            </Text>
+            <Button
+              size="xs"
+              variant="outline"
+              isDisabled={running || !title}
+              onClick={() => svg && title && downloadFile(`${slugify(title)}-geometrized.svg`, svg, 'image/svg+xml')}
+            >
+              Export SVG
+            </Button>
+          </Flex>
+        </>
+      )}
+    </Box>
+  );
+}
+
+// Collapsible panel rebuilding the artwork from rectangles, ellipses and triangles drawn
+// only in its key colors and background
+function GeometrizePanel({ analysis, pixels, title }: GeometrizePanelProps) {
+  const { isOpen, onToggle } = useDisclosure();
+  const [draftCount, setDraftCount] = useState(DEFAULT_SHAPE_COUNT);
+  const [shapeCount, setShapeCount] = useState(DEFAULT_SHAPE_COUNT);
+  const [shapeTypes, setShapeTypes] = useState<GeometrizeShapeType[]>(['rectangle', 'ellipse', 'triangle']);
+
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={8}>
+      <Flex justify="space-between" align="center">
+        <Text fontSize="sm" color="gray.600">
+          Geometrized
+        </Text>
+        <Button size="xs" variant="ghost" onClick={onToggle}>
+          {isOpen ? 'Hide' : 'Show'}
+        </Button>
+      </Flex>
+
+      <Collapse in={isOpen} animateOpacity unmountOnExit>
+        <Flex gap={6} mt={4} align="center" wrap="wrap">
+          <Box flex="1" minW="200px">
+            <Flex justify="space-between">
+              <Text fontSize="xs" color="gray.600">
+                Shapes
+              </Text>
+              <Text fontSize="xs" fontFamily="mono" color="gray.500">
+                {draftCount}
+              </Text>
+            </Flex>
+            <Slider
+              aria-label="Shapes"
+              min={10}
+              max={MAX_SHAPE_COUNT}
+              step={10}
+              value={draftCount}
+              onChange={setDraftCount}
+              onChangeEnd={setShapeCount}
+            >
+              <SliderTrack>
+                <SliderFilledTrack />
+              </SliderTrack>
+              <SliderThumb />
+            </Slider>
+          </Box>
+          <CheckboxGroup
+            size="sm"
+            value={shapeTypes}
+            onChange={(value) => setShapeTypes(value as GeometrizeShapeType[])}
+          >
+            <Stack direction="row" spacing={4}>
+              {(Object.keys(GEOMETRIZE_SHAPE_TYPES) as GeometrizeShapeType[]).map(type => (
+                <Checkbox key={type} value={type}>
+                  {GEOMETRIZE_SHAPE_TYPES[type]}
+                </Checkbox>
+              ))}
+            </Stack>
+          </CheckboxGroup>
+        </Flex>
+
+        <GeometrizeView
+          analysis={analysis}
+          pixels={pixels}
+          title={title}
+          shapeCount={shapeCount}
+          shapeTypes={shapeTypes}
+        />
+      </Collapse>
+    </Box>
+  );
+}
+
+export default GeometrizePanel;
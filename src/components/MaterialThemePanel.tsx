@@ -0,0 +1,170 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Collapse,
+  Flex,
+  FormControl,
+  FormLabel,
+  Grid,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  Switch,
+  Text,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { downloadFile, slugify } from '../export';
+import {
+  MaterialTheme,
+  SchemeMode,
+  THEME_EXPORT_FORMATS,
+  THEME_TONES,
+  ThemeExportFormat,
+  TONAL_PALETTE_NAMES,
+  TonalPaletteName,
+} from '../theme';
+
+const PALETTE_LABELS: { [name in TonalPaletteName]: string } = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  tertiary: 'Tertiary',
+  neutral: 'Neutral',
+  neutralVariant: 'Neutral variant',
+  error: 'Error',
+};
+
+interface MaterialThemePanelProps {
+  theme: MaterialTheme;
+  // Name written into the exported files, e.g. `Meridian #042`
+  title: string | null;
+  applied: boolean;
+  onAppliedChange: (applied: boolean) => void;
+}
+
+// Miniature surface drawn with a scheme's color roles
+function SchemePreview({ scheme, mode }: { scheme: MaterialTheme['schemes'][SchemeMode]; mode: SchemeMode }) {
+  return (
+    <Box bg={scheme.surface} color={scheme.onSurface} borderRadius="md" p={4} border="1px solid" borderColor={scheme.outlineVariant}>
+      <Text fontSize="xs" color={scheme.onSurfaceVariant} textTransform="uppercase" mb={3}>
+        {mode}
+      </Text>
+      <Box bg={scheme.primaryContainer} color={scheme.onPrimaryContainer} borderRadius="md" p={3} mb={3}>
+        <Text fontSize="sm" fontWeight="medium">Primary container</Text>
+        <Text fontSize="xs">Headline and supporting text</Text>
+      </Box>
+      <Flex gap={2} wrap="wrap">
+        <Box bg={scheme.primary} color={scheme.onPrimary} borderRadius="full" px={3} py={1} fontSize="xs">
+          Primary
+        </Box>
+        <Box bg={scheme.secondaryContainer} color={scheme.onSecondaryContainer} borderRadius="full" px={3} py={1} fontSize="xs">
+          Secondary
+        </Box>
+        <Box bg={scheme.tertiaryContainer} color={scheme.onTertiaryContainer} borderRadius="full" px={3} py={1} fontSize="xs">
+          Tertiary
+        </Box>
+        <Box border="1px solid" borderColor={scheme.outline} color={scheme.primary} borderRadius="full" px={3} py={1} fontSize="xs">
+          Outlined
+        </Box>
+      </Flex>
+    </Box>
+  );
+}
+
+// Material You theme generated from the artwork's seed color: tonal palettes, light and
+// dark schemes, a switch re-theming the app around it, and JSON/CSS token exports
+function MaterialThemePanel({ theme, title, applied, onAppliedChange }: MaterialThemePanelProps) {
+  const { isOpen, onToggle } = useDisclosure();
+
+  const exportAs = (format: ThemeExportFormat) => {
+    if (!title) return;
+    const { extension, mimeType, build } = THEME_EXPORT_FORMATS[format];
+    downloadFile(`${slugify(title)}.${extension}`, build(theme, title), mimeType);
+  };
+
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={8}>
+      <Flex justify="space-between" align="center" gap={4}>
+        <Flex align="center" gap={2}>
+          <Box w="16px" h="16px" borderRadius="full" bg={theme.source} title={`Seed ${theme.source}`} />
+          <Text fontSize="sm" color="gray.600">
+            Material Theme
+          </Text>
+        </Flex>
+        <Flex align="center" gap={2}>
+          <FormControl display="flex" alignItems="center" w="auto">
+            <FormLabel htmlFor="apply-material-theme" mb={0} fontSize="xs" color="gray.600">
+              Apply to app
+            </FormLabel>
+            <Switch
+              id="apply-material-theme"
+              size="sm"
+              colorScheme="brand"
+              isChecked={applied}
+              onChange={(e) => onAppliedChange(e.target.checked)}
+            />
+          </FormControl>
+          <Button size="xs" variant="ghost" onClick={onToggle}>
+            {isOpen ? 'Hide' : 'Show'}
+          </Button>
+        </Flex>
+      </Flex>
+
+      <Collapse in={isOpen} animateOpacity unmountOnExit>
+        {/* Tonal Palettes */}
+        <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mt={5} mb={2}>
+          Tonal Palettes
+        </Text>
+        {TONAL_PALETTE_NAMES.map(name => (
+          <Flex key={name} align="center" gap={2} mb={1}>
+            <Text fontSize="xs" color="gray.600" w="100px" flexShrink={0}>
+              {PALETTE_LABELS[name]}
+            </Text>
+            <Flex flex="1" borderRadius="sm" overflow="hidden">
+              {THEME_TONES.map(tone => (
+                <Box
+                  key={tone}
+                  flex="1"
+                  h="24px"
+                  bg={theme.palettes[name][tone]}
+                  title={`${PALETTE_LABELS[name]} ${tone}: ${theme.palettes[name][tone]}`}
+                />
+              ))}
+            </Flex>
+          </Flex>
+        ))}
+
+        {/* Schemes */}
+        <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mt={5} mb={2}>
+          Schemes
+        </Text>
+        <Grid templateColumns={{ base: '1fr', lg: '1fr 1fr' }} gap={4}>
+          <SchemePreview scheme={theme.schemes.light} mode="light" />
+          <SchemePreview scheme={theme.schemes.dark} mode="dark" />
+        </Grid>
+
+        <Flex justify="flex-end" mt={4}>
+          <Menu placement="top-end">
+            <MenuButton as={Button} size="sm" variant="outline" isDisabled={!title}>
+              Export theme
+            </MenuButton>
+            <MenuList fontSize="sm">
+              {(Object.keys(THEME_EXPORT_FORMATS) as ThemeExportFormat[]).map(format => (
+                <MenuItem
+                  key={format}
+                  onClick={() => exportAs(format)}
+                  command={`.${THEME_EXPORT_FORMATS[format].extension}`}
+                >
+                  {THEME_EXPORT_FORMATS[format].label}
+                </MenuItem>
+              ))}
+            </MenuList>
+          </Menu>
+        </Flex>
+      </Collapse>
+    </Box>
+  );
+}
+
+export default MaterialThemePanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Button, Menu, MenuButton, MenuItem, MenuList } from '@chakra-ui/react';
+import { ArtworkAnalysis } from '../analysis';
+import { downloadFile, getExportPalette, PALETTE_EXPORT_FORMATS, PaletteExportFormat, PaletteProvenance } from '../export';
+
+interface PaletteExportMenuProps {
+  analysis: ArtworkAnalysis;
+  // Palette name written into the files, e.g. `Meridian #042`
+  title: string;
+  provenance?: PaletteProvenance;
+}
+
+// Menu that downloads the background and key colors in designer formats
+function PaletteExportMenu({ analysis, title, provenance }: PaletteExportMenuProps) {
+  const exportAs = (format: PaletteExportFormat) => {
+    const palette = getExportPalette(analysis, title, provenance);
+    const { extension, mimeType, build } = PALETTE_EXPORT_FORMATS[format];
+    downloadFile(`${palette.slug}.${extension}`, build(palette), mimeType);
+  };
+
+  return (
+    <Menu placement="top-end">
+      <MenuButton as={Button} size="sm" variant="outline">
+        Export palette
+      </MenuButton>
+      <MenuList fontSize="sm">
+        {(Object.keys(PALETTE_EXPORT_FORMATS) as PaletteExportFormat[]).map(format => (
+          <MenuItem
+            key={format}
+            onClick={() => exportAs(format)}
+            command={`.${PALETTE_EXPORT_FORMATS[format].extension}`}
+          >
+            {PALETTE_EXPORT_FORMATS[format].label}
+          </MenuItem>
+        ))}
+      </MenuList>
+    </Menu>
+  );
+}
+
+export default PaletteExportMenu;
@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Button, ButtonGroup, Flex, Text } from '@chakra-ui/react';
+import { ArtworkAnalysis } from '../analysis';
+import { findSimilarArtworks, SIMILARITY_MODES, SimilarityMode } from '../compare';
+import { useCollectionIndex } from '../hooks/useCollectionIndex';
+import { ArtBlocksProject } from '../projects';
+import TokenTile from './TokenTile';
+
+const THUMBNAIL_SIZE = 140;
+
+interface SimilarArtworksProps {
+  project: ArtBlocksProject;
+  tokenId: number;
+  analysis: ArtworkAnalysis;
+  sessionAnalyses: Map<number, ArtworkAnalysis>;
+  onSelect: (tokenId: number) => void;
+}
+
+// Strip of the tokens closest to the viewed one, ranked from the local palette index
+function SimilarArtworks({ project, tokenId, analysis, sessionAnalyses, onSelect }: SimilarArtworksProps) {
+  const index = useCollectionIndex(project, sessionAnalyses);
+  const [mode, setMode] = useState<SimilarityMode>('palette');
+
+  const results = useMemo(
+    () => findSimilarArtworks(index, analysis, { mode, exclude: tokenId }),
+    [index, analysis, mode, tokenId]
+  );
+
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100" mb={8}>
+      <Flex justify="space-between" align="center" wrap="wrap" gap={2}>
+        <Text fontSize="sm" color="gray.600">
+          Similar Artworks
+        </Text>
+        <ButtonGroup size="xs" isAttached variant="outline">
+          {(Object.keys(SIMILARITY_MODES) as SimilarityMode[]).map(m => (
+            <Button key={m} isActive={mode === m} onClick={() => setMode(m)}>
+              {SIMILARITY_MODES[m]}
+            </Button>
+          ))}
+        </ButtonGroup>
+      </Flex>
+
+      {results.length === 0 ? (
+        <Text fontSize="sm" color="gray.500" mt={4}>
+          No palette index available. Generate a dataset with the batch CLI or analyze tokens in the viewer.
+        </Text>
+      ) : (
+        <Flex gap={4} mt={4} overflowX="auto" pb={2}>
+          {results.map(result => (
+            <Box key={result.tokenId} flex="0 0 auto" w="220px">
+              <TokenTile
+                project={project}
+                tokenId={result.tokenId}
+                analysis={index.get(result.tokenId)}
+                thumbnailSize={THUMBNAIL_SIZE}
+                captionHeight={28}
+                detail={`ΔE ${result.distance.toFixed(1)}`}
+                onClick={() => onSelect(result.tokenId)}
+              />
+            </Box>
+          ))}
+        </Flex>
+      )}
+    </Box>
+  );
+}
+
+export default SimilarArtworks;
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Badge, Box, Button, CloseButton, Flex, Grid, Text } from '@chakra-ui/react';
+import { ArtworkAnalysis } from '../analysis';
+import { useCollectionIndex } from '../hooks/useCollectionIndex';
+import { ArtBlocksProject, formatTokenId } from '../projects';
+import { computeCollectionStats, StatsBucket } from '../stats';
+import TokenTile from './TokenTile';
+
+interface StatsDashboardProps {
+  project: ArtBlocksProject;
+  sessionAnalyses: Map<number, ArtworkAnalysis>;
+  onSelect: (tokenId: number) => void;
+}
+
+interface ChartProps {
+  buckets: StatsBucket[];
+  // Key of the selected bucket, if it is in this chart
+  selected: string | null;
+  onSelect: (key: string) => void;
+}
+
+// Background clusters listed in the chart; the rest are folded into one row
+const MAX_BACKGROUND_BARS = 12;
+// Tokens shown for a selected bucket before asking for more
+const TOKEN_PAGE_SIZE = 48;
+const RESULT_THUMBNAIL_SIZE = 140;
+const COLUMN_CHART_HEIGHT = 160;
+
+type ChartId = 'backgrounds' | 'hues' | 'monochrome' | 'counts';
+
+const barColor = (bucket: StatsBucket) => bucket.color ?? 'var(--chakra-colors-gray-400)';
+
+// Horizontal bars, one row per bucket, scaled to the largest
+function BarList({ buckets, selected, onSelect }: ChartProps) {
+  const max = Math.max(1, ...buckets.map(b => b.tokenIds.length));
+  return (
+    <Box>
+      {buckets.map(bucket => (
+        <Flex
+          key={bucket.key}
+          as="button"
+          w="100%"
+          align="center"
+          gap={2}
+          py={1}
+          px={1}
+          borderRadius="sm"
+          bg={selected === bucket.key ? 'gray.100' : undefined}
+          _hover={{ bg: 'gray.50' }}
+          onClick={() => onSelect(bucket.key)}
+          title={`${bucket.label}: ${bucket.tokenIds.length} tokens`}
+        >
+          <Text fontSize="xs" color="gray.600" w="110px" textAlign="left" noOfLines={1} flexShrink={0}>
+            {bucket.label}
+          </Text>
+          <Box flex="1" h="14px">
+            <Box
+              h="100%"
+              w={`${(bucket.tokenIds.length / max) * 100}%`}
+              minW={bucket.tokenIds.length > 0 ? '2px' : 0}
+              bg={barColor(bucket)}
+              border="1px solid"
+              borderColor="gray.200"
+              borderRadius="sm"
+            />
+          </Box>
+          <Text fontSize="xs" fontFamily="mono" color="gray.500" w="40px" textAlign="right">
+            {bucket.tokenIds.length}
+          </Text>
+        </Flex>
+      ))}
+    </Box>
+  );
+}
+
+// Vertical columns for histograms, labelled underneath
+function ColumnChart({ buckets, selected, onSelect }: ChartProps) {
+  const max = Math.max(1, ...buckets.map(b => b.tokenIds.length));
+  return (
+    <Flex align="flex-end" gap={1} h={`${COLUMN_CHART_HEIGHT + 40}px`}>
+      {buckets.map(bucket => (
+        <Flex
+          key={bucket.key}
+          as="button"
+          direction="column"
+          justify="flex-end"
+          align="center"
+          flex="1"
+          h="100%"
+          borderRadius="sm"
+          bg={selected === bucket.key ? 'gray.100' : undefined}
+          _hover={{ bg: 'gray.50' }}
+          onClick={() => onSelect(bucket.key)}
+          title={`${bucket.label}: ${bucket.tokenIds.length} tokens`}
+        >
+          <Text fontSize="2xs" fontFamily="mono" color="gray.500">
+            {bucket.tokenIds.length}
+          </Text>
+          <Box
+            w="70%"
+            h={`${(bucket.tokenIds.length / max) * COLUMN_CHART_HEIGHT}px`}
+            bg={barColor(bucket)}
+            borderTopRadius="sm"
+          />
+          <Text fontSize="2xs" color="gray.600" h="28px" mt={1} textAlign="center" noOfLines={2}>
+            {bucket.label}
+          </Text>
+        </Flex>
+      ))}
+    </Flex>
+  );
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box bg="white" p={6} borderRadius="lg" boxShadow="sm" border="1px" borderColor="gray.100">
+      <Text fontSize="sm" color="gray.600" mb={4}>
+        {title}
+      </Text>
+      {children}
+    </Box>
+  );
+}
+
+// Collection-level charts computed from the local dataset, the analysis cache and this
+// session; clicking a bar lists the tokens behind it
+function StatsDashboard({ project, sessionAnalyses, onSelect }: StatsDashboardProps) {
+  const index = useCollectionIndex(project, sessionAnalyses);
+  const stats = useMemo(() => computeCollectionStats(index), [index]);
+  const [selection, setSelection] = useState<{ chart: ChartId; key: string } | null>(null);
+  const [visible, setVisible] = useState(TOKEN_PAGE_SIZE);
+
+  const backgrounds = useMemo(() => {
+    const shown = stats.backgrounds.slice(0, MAX_BACKGROUND_BARS);
+    const rest = stats.backgrounds.slice(MAX_BACKGROUND_BARS);
+    if (rest.length === 0) return shown;
+    const other = { key: 'other', label: `${rest.length} others`, color: null, tokenIds: rest.flatMap(b => b.tokenIds) };
+    return [...shown, other];
+  }, [stats]);
+
+  const charts: { [chart in ChartId]: StatsBucket[] } = {
+    backgrounds,
+    hues: stats.hues,
+    monochrome: stats.monochrome,
+    counts: stats.keyColorCounts,
+  };
+  // Looked up again on every render, so the token list follows newly analyzed tokens
+  const selected = selection ? charts[selection.chart].find(b => b.key === selection.key) ?? null : null;
+
+  const select = (chart: ChartId) => (key: string) => {
+    setSelection(selection?.chart === chart && selection.key === key ? null : { chart, key });
+    setVisible(TOKEN_PAGE_SIZE);
+  };
+  const selectedIn = (chart: ChartId) => (selection?.chart === chart ? selection.key : null);
+
+  if (index.size === 0) {
+    return (
+      <Text fontSize="sm" color="gray.500">
+        No palette index available. Generate a dataset with the batch CLI or analyze tokens in the viewer.
+      </Text>
+    );
+  }
+
+  return (
+    <Box>
+      <Text fontSize="sm" color="gray.500" mb={4}>
+        {stats.tokenCount} of {project.tokenCount} tokens analyzed
+      </Text>
+
+      <Grid templateColumns={{ base: '1fr', lg: '1fr 1fr' }} gap={6} mb={6}>
+        <ChartCard title="Background Colors">
+          <BarList buckets={backgrounds} selected={selectedIn('backgrounds')} onSelect={select('backgrounds')} />
+        </ChartCard>
+        <ChartCard title="Dominant Hues">
+          <ColumnChart buckets={stats.hues} selected={selectedIn('hues')} onSelect={select('hues')} />
+        </ChartCard>
+        <ChartCard title="Significant Black and White">
+          <BarList buckets={stats.monochrome} selected={selectedIn('monochrome')} onSelect={select('monochrome')} />
+        </ChartCard>
+        <ChartCard title="Key Colors per Token">
+          <ColumnChart buckets={stats.keyColorCounts} selected={selectedIn('counts')} onSelect={select('counts')} />
+        </ChartCard>
+      </Grid>
+
+      <Box mb={6}>
+        <ChartCard title="Outliers">
+          {stats.outliers.length === 0 ? (
+            <Text fontSize="sm" color="gray.500">
+              No token stands out from the rest of the collection.
+            </Text>
+          ) : (
+            <Flex direction="column" gap={1}>
+              {stats.outliers.map(({ tokenId, reasons }) => (
+                <Flex
+                  key={tokenId}
+                  as="button"
+                  align="center"
+                  gap={3}
+                  px={1}
+                  py={1}
+                  borderRadius="sm"
+                  _hover={{ bg: 'gray.50' }}
+                  onClick={() => onSelect(tokenId)}
+                >
+                  <Text fontSize="sm" fontFamily="mono" color="gray.700" w="60px" textAlign="left">
+                    #{formatTokenId(project, tokenId)}
+                  </Text>
+                  <Flex gap={1} wrap="wrap">
+                    {reasons.map(reason => (
+                      <Badge key={reason} colorScheme="orange" fontWeight="normal">
+                        {reason}
+                      </Badge>
+                    ))}
+                  </Flex>
+                </Flex>
+              ))}
+            </Flex>
+          )}
+        </ChartCard>
+      </Box>
+
+      {selected && (
+        <Box>
+          <Flex justify="space-between" align="center" mb={4}>
+            <Text fontSize="sm" color="gray.600">
+              {selected.label}: {selected.tokenIds.length} tokens
+            </Text>
+            <CloseButton size="sm" onClick={() => setSelection(null)} />
+          </Flex>
+          <Grid templateColumns="repeat(auto-fill, minmax(200px, 1fr))" gap={4}>
+            {selected.tokenIds.slice(0, visible).map(tokenId => (
+              <TokenTile
+                key={tokenId}
+                project={project}
+                tokenId={tokenId}
+                analysis={index.get(tokenId)}
+                thumbnailSize={RESULT_THUMBNAIL_SIZE}
+                captionHeight={28}
+                onClick={() => onSelect(tokenId)}
+              />
+            ))}
+          </Grid>
+          {selected.tokenIds.length > visible && (
+            <Flex justify="center" mt={4}>
+              <Button size="sm" variant="outline" onClick={() => setVisible(visible + TOKEN_PAGE_SIZE)}>
+                Show more
+              </Button>
+            </Flex>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default StatsDashboard;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Box, Flex, Image as ChakraImage, Text } from '@chakra-ui/react';
+import { ArtworkAnalysis, backgroundToCss } from '../analysis';
+import { ArtBlocksProject, formatTokenId, getArtworkImageUrl, getTokenLabel } from '../projects';
+import ColorStack from './ColorStack';
+
+interface TokenTileProps {
+  project: ArtBlocksProject;
+  tokenId: number;
+  analysis?: ArtworkAnalysis;
+  thumbnailSize: number;
+  captionHeight: number;
+  // Extra text shown at the right of the caption row
+  detail?: string;
+  onClick: () => void;
+}
+
+// Thumbnail with a compact palette stack beside it, used by the collection views
+function TokenTile({ project, tokenId, analysis, thumbnailSize, captionHeight, detail, onClick }: TokenTileProps) {
+  return (
+    <Box
+      bg="white"
+      borderRadius="md"
+      border="1px"
+      borderColor="gray.100"
+      boxShadow="sm"
+      overflow="hidden"
+      cursor="pointer"
+      transition="box-shadow 0.2s"
+      _hover={{ boxShadow: 'md' }}
+      onClick={onClick}
+    >
+      <Flex>
+        <ChakraImage
+          src={getArtworkImageUrl(project, tokenId)}
+          alt={getTokenLabel(project, tokenId)}
+          w={`${thumbnailSize}px`}
+          h={`${thumbnailSize}px`}
+          objectFit="cover"
+          loading="lazy"
+          bg="gray.100"
+        />
+        <Box flex="1" p={1}>
+          {analysis ? (
+            <ColorStack
+              keyColors={analysis.keyColors}
+              backgroundColor={backgroundToCss(analysis.background)}
+              height={`${thumbnailSize - 8}px`}
+              compact
+            />
+          ) : (
+            <Box h={`${thumbnailSize - 8}px`} borderRadius="md" bg="gray.50" />
+          )}
+        </Box>
+      </Flex>
+      <Flex justify="space-between" px={2} lineHeight={`${captionHeight}px`}>
+        <Text fontSize="xs" color="gray.600" fontFamily="mono">
+          #{formatTokenId(project, tokenId)}
+        </Text>
+        {detail && (
+          <Text fontSize="xs" color="gray.500">
+            {detail}
+          </Text>
+        )}
+      </Flex>
+    </Box>
+  );
+}
+
+export default TokenTile;
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { Badge, Box, Flex, Grid, Text } from '@chakra-ui/react';
+import { ArtworkAnalysis } from '../analysis';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { checkTraitColors } from '../metadata';
+import { ArtBlocksProject } from '../projects';
+
+interface TokenTraitsProps {
+  project: ArtBlocksProject;
+  tokenId: number;
+  // When given, colors named in the traits are checked against it
+  analysis: ArtworkAnalysis | null;
+}
+
+// Declared features and hash of the viewed token, flagging trait colors that the
+// measured palette does or does not contain
+function TokenTraits({ project, tokenId, analysis }: TokenTraitsProps) {
+  const { metadata, loaded } = useTokenMetadata(project, tokenId);
+  const checks = useMemo(
+    () => (analysis && metadata ? checkTraitColors(analysis, metadata) : []),
+    [analysis, metadata]
+  );
+
+  if (!metadata) {
+    if (!loaded) return null;
+    return (
+      <Box borderTop="1px" borderColor="gray.100" px={6} py={4}>
+        <Text fontSize="sm" color="gray.500">
+          Traits unavailable for this token.
+        </Text>
+      </Box>
+    );
+  }
+  const traits = Object.keys(metadata.features);
+
+  return (
+    <Box borderTop="1px" borderColor="gray.100" p={6}>
+      <Flex justify="space-between" align="baseline" mb={traits.length > 0 ? 4 : 0} gap={4}>
+        <Text fontSize="sm" color="gray.600">
+          Traits
+        </Text>
+        <Text fontSize="xs" fontFamily="mono" color="gray.400" noOfLines={1} title={metadata.hash}>
+          {metadata.hash}
+        </Text>
+      </Flex>
+      <Grid templateColumns="repeat(auto-fill, minmax(180px, 1fr))" gap={3}>
+        {traits.map(trait => (
+          <Box key={trait} bg="gray.50" borderRadius="md" px={3} py={2}>
+            <Text fontSize="xs" color="gray.500">
+              {trait}
+            </Text>
+            <Text fontSize="sm" color="gray.700">
+              {metadata.features[trait]}
+            </Text>
+            {checks.filter(c => c.trait === trait).map(check => (
+              <Badge
+                key={check.color}
+                colorScheme={check.matched ? 'green' : 'orange'}
+                fontWeight="normal"
+                mr={1}
+                mt={1}
+                title={`Closest measured color ${check.closest.toUpperCase()}, ΔE ${check.difference.toFixed(1)}`}
+              >
+                {check.color} {check.matched ? 'measured' : 'not found'}
+              </Badge>
+            ))}
+          </Box>
+        ))}
+      </Grid>
+    </Box>
+  );
+}
+
+export default TokenTraits;
@@ -0,0 +1,78 @@
+import { TokenTraitRecord } from '../metadata';
+import { TokenRecord } from './types';
+
+const CSV_COLUMNS = [
+  'token_id',
+  'file',
+  'width',
+  'height',
+  'background',
+  'black_percentage',
+  'white_percentage',
+  'background_coverage',
+  'unassigned_coverage',
+  'key_color_count',
+  'key_colors',
+];
+
+const TRAIT_CSV_COLUMNS = ['token_id', 'name', 'trait', 'value', 'color', 'closest', 'difference', 'matched'];
+
+// Function to quote a CSV field when it contains separators or quotes
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Key colors are packed into one column as
+// `hex:label:percentage:coverage:centroidX:centroidY:rowMin:rowMax`, top to bottom.
+// Spatial fields are empty for colors with no assigned pixels; the density grid is JSON-only
+const formatKeyColors = (record: TokenRecord) => {
+  return record.analysis.keyColors
+    .map(c => {
+      const spatial = c.spatial
+        ? [c.spatial.centroid.x, c.spatial.centroid.y, c.spatial.rows.min, c.spatial.rows.max].map(v => v.toFixed(3))
+        : ['', '', '', ''];
+      return [c.hex, c.label, c.percentage.toFixed(2), c.coverage.toFixed(2), ...spatial].join(':');
+    })
+    .join('|');
+};
+
+// Function to flatten dataset records into CSV, one row per token
+export const recordsToCsv = (records: TokenRecord[]) => {
+  const rows = records.map(record => [
+    record.tokenId,
+    record.file,
+    record.analysis.width,
+    record.analysis.height,
+    record.analysis.background.hex,
+    record.analysis.black.percentage.toFixed(2),
+    record.analysis.white.percentage.toFixed(2),
+    record.analysis.coverage.background.toFixed(2),
+    record.analysis.coverage.unassigned.toFixed(2),
+    record.analysis.keyColors.length,
+    formatKeyColors(record),
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+// Function to flatten joined trait checks into CSV, one row per color named in a trait
+export const traitRecordsToCsv = (records: TokenTraitRecord[]) => {
+  const rows: string[] = [];
+  records.forEach(record => {
+    record.checks.forEach(check => {
+      rows.push([
+        record.tokenId,
+        record.metadata.name,
+        check.trait,
+        check.value,
+        check.color,
+        check.closest,
+        check.difference.toFixed(2),
+        check.matched ? 'yes' : 'no',
+      ].map(escapeCsv).join(','));
+    });
+  });
+
+  return [TRAIT_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
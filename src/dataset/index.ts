@@ -0,0 +1,3 @@
+export * from './types';
+export { recordsToCsv, traitRecordsToCsv } from './csv';
+export { getDatasetUrl, loadCollectionDataset } from './loadDataset';
@@ -0,0 +1,32 @@
+import { ArtworkAnalysis } from '../analysis';
+import { ArtBlocksProject } from '../projects';
+import { CollectionDataset, DATASET_VERSION, getDatasetFileName } from './types';
+
+// The batch CLI output is served from `public/data/` when it has been generated
+export const getDatasetUrl = (project: ArtBlocksProject) =>
+  `${process.env.PUBLIC_URL ?? ''}/data/${getDatasetFileName(project)}.json`;
+
+const pending = new Map<string, Promise<Map<number, ArtworkAnalysis>>>();
+
+// Function to fetch a project's precomputed dataset once and index it by token number.
+// Resolves to an empty map when no dataset is deployed so views can fall back
+// to analyzing tokens on demand.
+export const loadCollectionDataset = (project: ArtBlocksProject) => {
+  let loading = pending.get(project.slug);
+  if (!loading) {
+    loading = fetch(getDatasetUrl(project))
+      .then(response => (response.ok ? response.json() : null))
+      .then((dataset: CollectionDataset | null) => {
+        if (!dataset || dataset.version !== DATASET_VERSION || dataset.project !== project.slug) {
+          return new Map<number, ArtworkAnalysis>();
+        }
+        return new Map(dataset.records.map(record => [record.tokenId, record.analysis]));
+      })
+      .catch(error => {
+        console.warn('Precomputed dataset unavailable:', error);
+        return new Map<number, ArtworkAnalysis>();
+      });
+    pending.set(project.slug, loading);
+  }
+  return loading;
+};
@@ -0,0 +1,23 @@
+import { ArtworkAnalysis } from '../analysis';
+import { ArtBlocksProject } from '../projects';
+
+// Bump when the shape of a dataset record changes
+export const DATASET_VERSION = 5;
+
+// Base name shared by the JSON and CSV outputs of the batch CLI, e.g. `meridian-palettes.v5`
+export const getDatasetFileName = (project: ArtBlocksProject) => `${project.slug}-palettes.v${DATASET_VERSION}`;
+
+export interface TokenRecord {
+  tokenId: number;
+  // Source image file name, e.g. `163000042.png`
+  file: string;
+  analysis: ArtworkAnalysis;
+}
+
+export interface CollectionDataset {
+  version: number;
+  // Slug of the project the records belong to
+  project: string;
+  generatedAt: string;
+  records: TokenRecord[];
+}
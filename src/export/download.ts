@@ -0,0 +1,11 @@
+// Function to save generated content as a file through a temporary link
+export const downloadFile = (fileName: string, content: string | Uint8Array, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import { ArtworkAnalysis, hexToRgb, SwatchLabel } from '../analysis';
+import { formatColor, toAse, toCssVariables, toGpl, toPaletteJson, toProcreateSwatches, toTailwind } from './formats';
+import { getExportPalette } from './palette';
+import { DEFAULT_TUNING } from '../tuning';
+import { crc32 } from './zip';
+
+const monochrome = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const color = (hex: string, label: SwatchLabel, percentage: number) => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label,
+  population: percentage,
+  percentage,
+  coverage: percentage / 2,
+  verticalPosition: 0,
+  spatial: null,
+});
+
+const analysis: ArtworkAnalysis = {
+  width: 100,
+  height: 100,
+  background: { hex: '#f0e4c8', rgb: hexToRgb('#f0e4c8')!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors: [color('#148c8c', 'Vibrant', 60), color('#c8281e', 'Vibrant', 30), color('#FFFFFF', 'White', 10)],
+  coverage: { background: 50, unassigned: 0 },
+  black: monochrome,
+  white: monochrome,
+};
+
+const palette = getExportPalette(analysis, 'Meridian #042');
+
+test('gives repeated labels unique keys', () => {
+  expect(palette.slug).toBe('meridian-042');
+  expect(palette.colors.map(c => c.key)).toEqual(['vibrant', 'vibrant-2', 'white']);
+  expect(palette.colors[2].hex).toBe('#ffffff');
+});
+
+test('writes an ASE file with a group around one block per color', () => {
+  const bytes = toAse(palette);
+  const view = new DataView(bytes.buffer);
+  expect(String.fromCharCode(...Array.from(bytes.slice(0, 4)))).toBe('ASEF');
+  expect(view.getUint32(8)).toBe(6);
+  expect(view.getUint16(12)).toBe(0xc001);
+  expect(view.getUint16(bytes.length - 6)).toBe(0xc002);
+});
+
+test('writes GIMP palette rows with the background first', () => {
+  const lines = toGpl(palette).trim().split('\n');
+  expect(lines.slice(0, 4)).toEqual(['GIMP Palette', 'Name: Meridian #042', 'Columns: 4', '#']);
+  expect(lines[4]).toBe('240 228 200\tMeridian #042 Background');
+  expect(lines[5]).toBe(' 20 140 140\tMeridian #042 Vibrant (60.0%)');
+});
+
+test('packs Procreate swatches into a stored ZIP entry', () => {
+  const bytes = toProcreateSwatches(palette);
+  const view = new DataView(bytes.buffer);
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  const size = view.getUint32(18, true);
+  const json = JSON.parse(new TextDecoder().decode(bytes.slice(30 + 13, 30 + 13 + size)));
+  expect(json[0].swatches).toHaveLength(4);
+  expect(json[0].swatches[3]).toEqual({ hue: 0, saturation: 0, brightness: 1, alpha: 1, colorSpace: 0 });
+});
+
+test('names CSS variables and Tailwind keys after the palette slug', () => {
+  expect(toCssVariables(palette)).toContain('  --meridian-042-vibrant-2: #c8281e; /* Vibrant, 30.0% */');
+  expect(toTailwind(palette)).toContain("        'meridian-042': {\n          'background': '#f0e4c8',");
+});
+
+test('exports JSON with the schema reference and ordered colors', () => {
+  const document = JSON.parse(toPaletteJson(palette));
+  expect(document.$schema).toMatch(/meridian-palette\.v1\.schema\.json$/);
+  expect(document.colors.map((c: { hex: string }) => c.hex)).toEqual(['#148c8c', '#c8281e', '#ffffff']);
+});
+
+test('records the extractor, preset and changed parameters', () => {
+  const tuned = getExportPalette(analysis, 'Meridian #042', {
+    extractor: 'kmeans',
+    preset: 'Soft edges',
+    tuning: { ...DEFAULT_TUNING, whiteThreshold: 230 },
+  });
+  expect(toGpl(tuned).split('\n').slice(3, 6)).toEqual([
+    '# Extractor: kmeans',
+    '# Preset: Soft edges',
+    '# Parameters: white=230',
+  ]);
+  expect(toCssVariables(tuned)).toContain('/* Parameters: white=230 */');
+  expect(JSON.parse(toPaletteJson(tuned)).analysis).toMatchObject({
+    extractor: 'kmeans',
+    preset: 'Soft edges',
+    parameters: { whiteThreshold: 230 },
+  });
+  expect(JSON.parse(toPaletteJson(palette)).analysis).toBeUndefined();
+});
+
+test('formats single colors for copying', () => {
+  const teal = hexToRgb('#148c8c')!;
+  expect(formatColor(teal, 'hex')).toBe('#148C8C');
+  expect(formatColor(teal, 'rgb')).toBe('rgb(20,140,140)');
+  expect(formatColor(teal, 'hsl')).toBe('hsl(180, 75%, 31%)');
+  expect(formatColor({ r: 255, g: 255, b: 255 }, 'oklch')).toMatch(/^oklch\(100\.0% 0\.000 /);
+});
+
+test('computes the standard CRC-32 check value', () => {
+  expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+});
@@ -0,0 +1,217 @@
+import { backgroundToCss, rgbToCss, rgbToHsl, rgbToOklch, RGB } from '../analysis';
+import { writeTuning } from '../tuning';
+import { ExportPalette, PaletteColor } from './palette';
+import { createZip } from './zip';
+
+// Version of the JSON export, documented by the schema published alongside the app
+export const PALETTE_JSON_VERSION = 1;
+export const PALETTE_SCHEMA_URL =
+  `https://pixelsushirobot.github.io/Meridian-Art-Viewer/schemas/meridian-palette.v${PALETTE_JSON_VERSION}.schema.json`;
+
+// Background first, then key colors top to bottom
+const allColors = (palette: ExportPalette): PaletteColor[] => [palette.background, ...palette.colors];
+
+const formatShare = (value: number | null) => (value === null ? '' : `${value.toFixed(1)}%`);
+
+// Function to describe how the palette was produced, one comment line per fact.
+// Parameters use the same query syntax as the viewer's URLs.
+const describeProvenance = ({ provenance }: ExportPalette) => {
+  if (!provenance) return [];
+  const parameters = writeTuning(provenance.tuning, new URLSearchParams()).toString();
+  return [
+    `Extractor: ${provenance.extractor}`,
+    ...(provenance.preset ? [`Preset: ${provenance.preset}`] : []),
+    `Parameters: ${parameters || 'defaults'}`,
+  ];
+};
+
+// Adobe Swatch Exchange: big-endian blocks, one group holding an RGB color entry per swatch
+export const toAse = (palette: ExportPalette) => {
+  const colors = allColors(palette);
+  const nameSize = (name: string) => 2 + (name.length + 1) * 2;
+  const groupSize = nameSize(palette.title);
+  const colorSizes = colors.map(c => nameSize(c.name) + 4 + 12 + 2);
+  const total = 12 + (6 + groupSize) + colorSizes.reduce((sum, size) => sum + 6 + size, 0) + 6;
+  const view = new DataView(new ArrayBuffer(total));
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value);
+    offset += 4;
+  };
+  const ascii = (text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset++, text.charCodeAt(i));
+  };
+  // Names are length-prefixed, null-terminated UTF-16
+  const name = (text: string) => {
+    u16(text.length + 1);
+    for (let i = 0; i < text.length; i++) u16(text.charCodeAt(i));
+    u16(0);
+  };
+
+  ascii('ASEF');
+  u16(1);
+  u16(0);
+  u32(colors.length + 2);
+
+  u16(0xc001); // group start
+  u32(groupSize);
+  name(palette.title);
+
+  colors.forEach((color, index) => {
+    u16(0x0001); // color entry
+    u32(colorSizes[index]);
+    name(color.name);
+    ascii('RGB ');
+    [color.rgb.r, color.rgb.g, color.rgb.b].forEach(v => {
+      view.setFloat32(offset, v / 255);
+      offset += 4;
+    });
+    u16(2); // normal (not global or spot)
+  });
+
+  u16(0xc002); // group end
+  u32(0);
+
+  return new Uint8Array(view.buffer);
+};
+
+// GIMP palette, also read by Inkscape and Krita
+export const toGpl = (palette: ExportPalette) => {
+  const lines = allColors(palette).map(({ rgb, name, percentage }) => {
+    const channels = [rgb.r, rgb.g, rgb.b].map(v => String(v).padStart(3)).join(' ');
+    return `${channels}\t${name}${percentage === null ? '' : ` (${formatShare(percentage)})`}`;
+  });
+  const comments = describeProvenance(palette).map(line => `# ${line}`);
+  return ['GIMP Palette', `Name: ${palette.title}`, 'Columns: 4', ...comments, '#', ...lines].join('\n') + '\n';
+};
+
+// Function to convert RGB to HSB (HSV), each channel 0-1, as Procreate stores swatches
+const rgbToHsb = ({ r, g, b }: RGB) => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  return {
+    hue: rgbToHsl(r, g, b).h / 360,
+    saturation: max === 0 ? 0 : (max - min) / max,
+    brightness: max,
+  };
+};
+
+// Procreate palette: a ZIP holding Swatches.json
+export const toProcreateSwatches = (palette: ExportPalette) => {
+  const swatches = [{
+    name: palette.title,
+    swatches: allColors(palette).map(({ rgb }) => ({ ...rgbToHsb(rgb), alpha: 1, colorSpace: 0 })),
+  }];
+  const data = new TextEncoder().encode(JSON.stringify(swatches));
+  return createZip([{ name: 'Swatches.json', data }]);
+};
+
+// CSS custom properties scoped by the palette slug
+export const toCssVariables = (palette: ExportPalette) => {
+  const variable = (key: string) => `--${palette.slug}-${key}`;
+  const lines = allColors(palette).map(({ key, hex, label, percentage }) =>
+    `  ${variable(key)}: ${hex};${percentage === null ? '' : ` /* ${label}, ${formatShare(percentage)} */`}`
+  );
+  if (palette.background.estimate.gradient) {
+    lines.splice(1, 0, `  ${variable('background-gradient')}: ${backgroundToCss(palette.background.estimate)};`);
+  }
+  const comments = describeProvenance(palette).map(line => `/* ${line} */`);
+  return [`/* ${palette.title} palette */`, ...comments, ':root {', ...lines, '}'].join('\n') + '\n';
+};
+
+// Tailwind `theme.extend.colors` entry, so classes read like `bg-meridian-042-vibrant`
+export const toTailwind = (palette: ExportPalette) => {
+  const lines = allColors(palette).map(({ key, hex }) => `          '${key}': '${hex}',`);
+  return [
+    `// ${palette.title} palette for tailwind.config.js`,
+    ...describeProvenance(palette).map(line => `// ${line}`),
+    'module.exports = {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    `        '${palette.slug}': {`,
+    ...lines,
+    '        },',
+    '      },',
+    '    },',
+    '  },',
+    '};',
+  ].join('\n') + '\n';
+};
+
+// JSON document matching `public/schemas/meridian-palette.v1.schema.json`
+export const toPaletteJson = (palette: ExportPalette) => {
+  const { estimate } = palette.background;
+  const document = {
+    $schema: PALETTE_SCHEMA_URL,
+    version: PALETTE_JSON_VERSION,
+    title: palette.title,
+    background: {
+      hex: palette.background.hex,
+      rgb: palette.background.rgb,
+      kind: estimate.kind,
+      confidence: estimate.confidence,
+      gradient: estimate.gradient,
+    },
+    colors: palette.colors.map(({ name, key, label, hex, rgb, percentage, coverage }) => ({
+      name,
+      key,
+      label,
+      hex,
+      rgb,
+      percentage,
+      coverage,
+    })),
+    ...(palette.provenance && {
+      analysis: {
+        extractor: palette.provenance.extractor,
+        preset: palette.provenance.preset,
+        parameters: palette.provenance.tuning,
+      },
+    }),
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+};
+
+export type PaletteExportFormat = 'ase' | 'gpl' | 'swatches' | 'css' | 'tailwind' | 'json';
+
+export const PALETTE_EXPORT_FORMATS: {
+  [format in PaletteExportFormat]: {
+    label: string;
+    extension: string;
+    mimeType: string;
+    build: (palette: ExportPalette) => string | Uint8Array;
+  };
+} = {
+  ase: { label: 'Adobe Swatch Exchange', extension: 'ase', mimeType: 'application/octet-stream', build: toAse },
+  gpl: { label: 'GIMP / Inkscape palette', extension: 'gpl', mimeType: 'text/plain', build: toGpl },
+  swatches: { label: 'Procreate swatches', extension: 'swatches', mimeType: 'application/zip', build: toProcreateSwatches },
+  css: { label: 'CSS custom properties', extension: 'css', mimeType: 'text/css', build: toCssVariables },
+  tailwind: { label: 'Tailwind colors', extension: 'tailwind.js', mimeType: 'text/javascript', build: toTailwind },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', build: toPaletteJson },
+};
+
+export type ColorCopyFormat = 'hex' | 'rgb' | 'hsl' | 'oklch';
+
+// Function to format a single color for the clipboard
+export const formatColor = (rgb: RGB, format: ColorCopyFormat) => {
+  switch (format) {
+    case 'rgb':
+      return rgbToCss(rgb);
+    case 'hsl': {
+      const { h, s, l } = rgbToHsl(rgb.r, rgb.g, rgb.b);
+      return `hsl(${Math.round(h)}, ${Math.round(s)}%, ${Math.round(l)}%)`;
+    }
+    case 'oklch': {
+      const { l, c, h } = rgbToOklch(rgb);
+      return `oklch(${(l * 100).toFixed(1)}% ${c.toFixed(3)} ${h.toFixed(1)})`;
+    }
+    default:
+      return `#${[rgb.r, rgb.g, rgb.b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+};
@@ -0,0 +1,3 @@
+export * from './palette';
+export * from './formats';
+export { downloadFile } from './download';
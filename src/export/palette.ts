@@ -0,0 +1,78 @@
+import { ArtworkAnalysis, BackgroundEstimate, ExtractorId, RGB, SwatchLabel } from '../analysis';
+import { Tuning } from '../tuning';
+
+export interface PaletteColor {
+  // Human-readable swatch name, e.g. `Meridian #042 Dark Vibrant`
+  name: string;
+  // Identifier-safe key for CSS variables and Tailwind, e.g. `dark-vibrant`
+  key: string;
+  label: SwatchLabel | 'Background';
+  hex: string;
+  rgb: RGB;
+  // Shares (0-100) from the analysis; null for the background
+  percentage: number | null;
+  coverage: number | null;
+}
+
+// How the palette was produced, written into exports so results can be reproduced
+export interface PaletteProvenance {
+  extractor: ExtractorId;
+  preset: string | null;
+  tuning: Tuning;
+}
+
+// The current analysis reduced to what the export formats need
+export interface ExportPalette {
+  title: string;
+  // Identifier-safe title, e.g. `meridian-042`
+  slug: string;
+  background: PaletteColor & { estimate: BackgroundEstimate };
+  // Key colors in visualization order, top to bottom
+  colors: PaletteColor[];
+  provenance: PaletteProvenance | null;
+}
+
+// Function to turn a label or title into a lowercase, hyphenated identifier
+export const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Function to collect the background and key colors of an analysis for export.
+// Labels can repeat (e.g. after merging), so keys get a numeric suffix when they do.
+export const getExportPalette = (
+  analysis: ArtworkAnalysis,
+  title: string,
+  provenance: PaletteProvenance | null = null
+): ExportPalette => {
+  const usedKeys = new Set<string>(['background']);
+  const colors = analysis.keyColors.map(color => {
+    const base = slugify(color.label);
+    let key = base;
+    for (let n = 2; usedKeys.has(key); n++) key = `${base}-${n}`;
+    usedKeys.add(key);
+    return {
+      name: `${title} ${color.label}${key === base ? '' : ` ${key.slice(base.length + 1)}`}`,
+      key,
+      label: color.label,
+      hex: color.hex.toLowerCase(),
+      rgb: color.rgb,
+      percentage: color.percentage,
+      coverage: color.coverage,
+    };
+  });
+
+  return {
+    title,
+    slug: slugify(title),
+    background: {
+      name: `${title} Background`,
+      key: 'background',
+      label: 'Background',
+      hex: analysis.background.hex.toLowerCase(),
+      rgb: analysis.background.rgb,
+      percentage: null,
+      coverage: null,
+      estimate: analysis.background,
+    },
+    colors,
+    provenance,
+  };
+};
@@ -0,0 +1,91 @@
+// Minimal ZIP writer for small exports: stored (uncompressed) entries only
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// Function to compute the CRC-32 checksum ZIP entries require
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// DOS date for 1980-01-01, the earliest a ZIP can store; keeps output deterministic
+const DOS_DATE = (1 << 5) | 1;
+
+export const createZip = (files: { name: string; data: Uint8Array }[]) => {
+  const encoder = new TextEncoder();
+  const entries = files.map(file => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }));
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const raw = (data: Uint8Array) => {
+    bytes.set(data, offset);
+    offset += data.length;
+  };
+
+  const localOffsets = entries.map(entry => {
+    const start = offset;
+    u32(0x04034b50);
+    u16(20); // version needed
+    u16(0); // flags
+    u16(0); // stored
+    u16(0); // time
+    u16(DOS_DATE);
+    u32(entry.crc);
+    u32(entry.data.length);
+    u32(entry.data.length);
+    u16(entry.nameBytes.length);
+    u16(0); // extra length
+    raw(entry.nameBytes);
+    raw(entry.data);
+    return start;
+  });
+
+  const centralStart = offset;
+  entries.forEach((entry, index) => {
+    u32(0x02014b50);
+    u16(20); // version made by
+    u16(20); // version needed
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(DOS_DATE);
+    u32(entry.crc);
+    u32(entry.data.length);
+    u32(entry.data.length);
+    u16(entry.nameBytes.length);
+    u16(0); // extra length
+    u16(0); // comment length
+    u16(0); // disk number
+    u16(0); // internal attributes
+    u32(0); // external attributes
+    u32(localOffsets[index]);
+    raw(entry.nameBytes);
+  });
+
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(entries.length);
+  u16(entries.length);
+  u32(centralSize);
+  u32(centralStart);
+  u16(0); // comment length
+
+  return bytes;
+};
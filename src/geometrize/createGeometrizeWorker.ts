@@ -0,0 +1,3 @@
+// Kept in its own module: webpack bundles the worker from this `import.meta.url`
+// reference, which Jest cannot parse, so tests mock this file out
+export const createGeometrizeWorker = () => new Worker(new URL('./geometrize.worker.ts', import.meta.url));
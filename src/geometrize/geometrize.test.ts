@@ -0,0 +1,53 @@
+import { createGeometrizer, downscalePixels, GeometrizedShape, startGeometrize, toGeometrizeSvg } from './geometrize';
+
+const TEAL = { r: 20, g: 140, b: 140 };
+const RED = { r: 200, g: 40, b: 30 };
+const CREAM = { r: 240, g: 228, b: 200 };
+
+// Cream canvas with a teal block on the left and a red block on the right
+const artwork = () => {
+  const width = 60;
+  const height = 40;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = y >= 10 && y < 30;
+      const color = inside && x >= 5 && x < 25 ? TEAL : inside && x >= 35 && x < 55 ? RED : CREAM;
+      data.set([color.r, color.g, color.b, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const isShape = (shape: GeometrizedShape | null): shape is GeometrizedShape => shape !== null;
+
+test('averages blocks when downscaling', () => {
+  const pixels = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 0, 255, 200, 100, 50, 255]) };
+  expect(Array.from(downscalePixels(pixels, 1).data)).toEqual([100, 50, 25, 255]);
+  expect(downscalePixels(artwork(), 128).width).toBe(60);
+});
+
+test('fits shapes in palette colors and lowers the error', () => {
+  const geometrizer = createGeometrizer(artwork(), [TEAL, RED], CREAM, ['rectangle']);
+  const initial = geometrizer.error();
+  // Steps return null once the blocks are matched exactly
+  const shapes = Array.from({ length: 6 }, () => geometrizer.step()).filter(isShape);
+
+  expect(geometrizer.error()).toBeLessThan(initial / 2);
+  shapes.forEach(shape => expect(['#148c8c', '#c8281e', '#f0e4c8']).toContain(shape.hex));
+  expect(shapes[0].svg).toContain('<rect');
+
+  const svg = toGeometrizeSvg({ ...geometrizer, shapes });
+  expect(svg).toContain('viewBox="0 0 60 40"');
+  expect(svg.match(/<rect/g)).toHaveLength(shapes.length + 1);
+});
+
+test('hands out each new shape in the requested types', () => {
+  const job = startGeometrize({ pixels: artwork(), palette: [TEAL, RED], background: CREAM, shapeCount: 3, shapeTypes: ['ellipse'] });
+  const shapes = Array.from({ length: 4 }, () => job.next()).filter(isShape);
+
+  expect(shapes.length).toBeGreaterThan(0);
+  expect(shapes.length).toBeLessThanOrEqual(3);
+  expect(job.result().shapes).toEqual(shapes);
+  shapes.forEach(shape => expect(shape.svg).toContain('<ellipse'));
+});
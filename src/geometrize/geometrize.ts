@@ -0,0 +1,228 @@
+import { Bitmap, ImageRunner, ShapeTypes, SvgExporter } from 'geometrizejs';
+import { PixelData, RGB, rgbToHex } from '../analysis';
+
+export type GeometrizeShapeType = 'rectangle' | 'ellipse' | 'triangle';
+
+export const GEOMETRIZE_SHAPE_TYPES: { [type in GeometrizeShapeType]: string } = {
+  rectangle: 'Rectangles',
+  ellipse: 'Ellipses',
+  triangle: 'Triangles',
+};
+
+const SHAPE_TYPE_IDS: { [type in GeometrizeShapeType]: number } = {
+  rectangle: ShapeTypes.RECTANGLE,
+  ellipse: ShapeTypes.ELLIPSE,
+  triangle: ShapeTypes.TRIANGLE,
+};
+
+// Longer side the artwork is reduced to before fitting shapes; the SVG scales back up
+export const GEOMETRIZE_SIZE = 128;
+
+// Hill-climbing effort per shape, Geometrize's own defaults
+const CANDIDATE_SHAPES = 50;
+const SHAPE_MUTATIONS = 100;
+// Fitted shapes tried before giving up on finding one that still lowers the error
+const MAX_ATTEMPTS = 10;
+
+// One fitted shape as an SVG element, filled with a palette color
+export interface GeometrizedShape {
+  hex: string;
+  svg: string;
+}
+
+export interface Geometrizer {
+  width: number;
+  height: number;
+  background: string;
+  // Fits and adds one more shape, or returns null once no shape improves the result
+  step: () => GeometrizedShape | null;
+  // Root-mean-square difference from the artwork, in percent of the full channel range
+  error: () => number;
+}
+
+// The runner accepts a starting color, which its typings leave out, and keeps the
+// current error in its model, which has to follow when shapes are repainted
+const ImageRunnerWithBackground = ImageRunner as unknown as new (image: Bitmap, background: number) => ImageRunner & {
+  model: { score: number };
+};
+
+const toRgba = ({ r, g, b }: RGB) => ((r << 24) | (g << 16) | (b << 8) | 255) >>> 0;
+const fromRgba = (rgba: number): RGB => ({ r: (rgba >>> 24) & 255, g: (rgba >>> 16) & 255, b: (rgba >>> 8) & 255 });
+
+// Function to reduce pixels to fit within `maxSize`, averaging each block of source pixels
+export const downscalePixels = ({ width, height, data }: PixelData, maxSize: number): PixelData => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const out = new Uint8ClampedArray(w * h * 4);
+
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.floor((y * height) / h);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * height) / h));
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.floor((x * width) / w);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * width) / w));
+      const sum = [0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * width + sx) * 4;
+          sum[0] += data[i];
+          sum[1] += data[i + 1];
+          sum[2] += data[i + 2];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * w + x) * 4;
+      out[o] = sum[0] / count;
+      out[o + 1] = sum[1] / count;
+      out[o + 2] = sum[2] / count;
+      out[o + 3] = 255;
+    }
+  }
+
+  return { width: w, height: h, data: out };
+};
+
+// Function to approximate an artwork with opaque primitive shapes in its own palette.
+// Geometrize fits each shape with a free color; the shape is then repainted with the
+// palette color (or background) that matches the artwork best under it, so later
+// shapes are fitted against what is actually drawn. Shapes that would only add error in
+// palette colors are undone and fitted again.
+export const createGeometrizer = (
+  pixels: PixelData,
+  palette: RGB[],
+  background: RGB,
+  shapeTypes: GeometrizeShapeType[]
+): Geometrizer => {
+  const target = downscalePixels(pixels, GEOMETRIZE_SIZE);
+  const { width, height, data } = target;
+  const runner = new ImageRunnerWithBackground(
+    Bitmap.createFromByteArray(width, height, Array.from(data)),
+    toRgba(background)
+  );
+  const current = runner.getImageData();
+  const colors = [background, ...palette];
+  const options = {
+    shapeTypes: shapeTypes.map(type => SHAPE_TYPE_IDS[type]),
+    alpha: 255,
+    candidateShapesPerStep: CANDIDATE_SHAPES,
+    shapeMutationsPerStep: SHAPE_MUTATIONS,
+  };
+
+  const squaredError = (i: number, { r, g, b }: RGB) =>
+    (data[i] - r) ** 2 + (data[i + 1] - g) ** 2 + (data[i + 2] - b) ** 2;
+
+  // Running sum of squared channel differences, updated as pixels are repainted
+  let totalError = 0;
+  for (let i = 0; i < data.length; i += 4) totalError += squaredError(i, background);
+
+  // What is drawn in palette colors. The runner paints each new shape in its fitted
+  // color first, so this keeps the pixels needed to repaint or undo it.
+  const drawn = new Array<number>(width * height).fill(toRgba(background));
+
+  // Geometrize also counts the (always opaque) alpha channel. The score is rounded up a
+  // hair: a shape that erases all remaining error would otherwise dip below zero.
+  const syncScore = () => {
+    runner.model.score = (Math.sqrt(totalError / (width * height * 4)) / 255) * (1 + 1e-9);
+  };
+
+  const step = () => {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const [result] = runner.step(options);
+      const lines = result.shape.rasterize();
+
+      // Change in error under the shape for each color
+      const costs = colors.map(() => 0);
+      lines.forEach(({ y, x1, x2 }) => {
+        for (let x = x1; x <= x2; x++) {
+          const i = (y * width + x) * 4;
+          const before = squaredError(i, fromRgba(drawn[y * width + x]));
+          colors.forEach((color, c) => {
+            costs[c] += squaredError(i, color) - before;
+          });
+        }
+      });
+      const best = costs.indexOf(Math.min(...costs));
+      const accepted = costs[best] < 0;
+      const rgba = toRgba(colors[best]);
+
+      lines.forEach(({ y, x1, x2 }) => {
+        for (let x = x1; x <= x2; x++) {
+          if (accepted) drawn[y * width + x] = rgba;
+          current.setPixel(x, y, drawn[y * width + x]);
+        }
+      });
+      if (accepted) totalError += costs[best];
+      syncScore();
+
+      if (accepted) return { hex: rgbToHex(colors[best]), svg: SvgExporter.exportShape({ ...result, color: rgba }) };
+    }
+    return null;
+  };
+
+  return {
+    width,
+    height,
+    background: rgbToHex(background),
+    step,
+    error: () => (Math.sqrt(totalError / (width * height * 3)) / 255) * 100,
+  };
+};
+
+export interface GeometrizeRequest {
+  pixels: PixelData;
+  // Key colors the shapes may use, besides the background
+  palette: RGB[];
+  background: RGB;
+  shapeCount: number;
+  shapeTypes: GeometrizeShapeType[];
+}
+
+export interface GeometrizeResult {
+  width: number;
+  height: number;
+  background: string;
+  shapes: GeometrizedShape[];
+  error: number;
+}
+
+export interface GeometrizeJob {
+  result: () => GeometrizeResult;
+  error: () => number;
+  // Adds and returns one more shape; null once the count is reached or no shape
+  // improves the result
+  next: () => GeometrizedShape | null;
+}
+
+// Function to set up fitting shapes one at a time toward the requested count
+export const startGeometrize = ({ pixels, palette, background, shapeCount, shapeTypes }: GeometrizeRequest): GeometrizeJob => {
+  const geometrizer = createGeometrizer(pixels, palette, background, shapeTypes);
+  const shapes: GeometrizedShape[] = [];
+
+  return {
+    result: () => ({
+      width: geometrizer.width,
+      height: geometrizer.height,
+      background: geometrizer.background,
+      shapes: [...shapes],
+      error: geometrizer.error(),
+    }),
+    error: geometrizer.error,
+    next: () => {
+      if (shapes.length >= shapeCount) return null;
+      const shape = geometrizer.step();
+      if (shape) shapes.push(shape);
+      return shape;
+    },
+  };
+};
+
+// Function to write the shapes as a standalone SVG at the artwork's working size
+export const toGeometrizeSvg = (
+  { width, height, background, shapes }: { width: number; height: number; background: string; shapes: GeometrizedShape[] }
+) => [
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`,
+  `<rect width="${width}" height="${height}" fill="${background}"/>`,
+  ...shapes.map(shape => shape.svg),
+  '</svg>',
+].join('\n') + '\n';
@@ -0,0 +1,28 @@
+import { GeometrizedShape, GeometrizeRequest, GeometrizeResult, startGeometrize } from './geometrize';
+
+// Progress carries only the newest shape, so messages stay small as the shapes add up
+export type GeometrizeResponse =
+  | { type: 'start'; result: GeometrizeResult }
+  | { type: 'shape'; shape: GeometrizedShape; error: number }
+  | { type: 'done'; result: GeometrizeResult }
+  | { type: 'error'; message: string };
+
+// The dom lib types `self` as a window, so describe the worker scope we use
+const scope = globalThis as unknown as {
+  onmessage: ((event: MessageEvent<GeometrizeRequest>) => void) | null;
+  postMessage: (message: GeometrizeResponse) => void;
+};
+
+// Each worker runs a single job; the page terminates it to cancel
+scope.onmessage = ({ data }) => {
+  try {
+    const job = startGeometrize(data);
+    scope.postMessage({ type: 'start', result: job.result() });
+    for (let shape = job.next(); shape; shape = job.next()) {
+      scope.postMessage({ type: 'shape', shape, error: job.error() });
+    }
+    scope.postMessage({ type: 'done', result: job.result() });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
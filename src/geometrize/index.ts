@@ -0,0 +1,2 @@
+export * from './geometrize';
+export { runGeometrize } from './runGeometrize';
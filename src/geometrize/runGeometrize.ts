@@ -0,0 +1,81 @@
+import type { GeometrizeResponse } from './geometrize.worker';
+import { createGeometrizeWorker } from './createGeometrizeWorker';
+import { GeometrizedShape, GeometrizeRequest, GeometrizeResult, startGeometrize } from './geometrize';
+
+interface RunGeometrizeOptions {
+  onProgress?: (result: GeometrizeResult) => void;
+  // Aborting terminates the job and rejects with an `AbortError`
+  signal?: AbortSignal;
+}
+
+// Shapes fitted between yields when running on the main thread
+const MAIN_THREAD_BATCH = 5;
+
+const abortError = () => new DOMException('Geometrize cancelled', 'AbortError');
+
+// Function to extend the last reported result with a newly fitted shape
+const addShape = (result: GeometrizeResult, shape: GeometrizedShape, error: number): GeometrizeResult => ({
+  ...result,
+  shapes: [...result.shapes, shape],
+  error,
+});
+
+// Function to fit shapes on the main thread in small batches, so the page still repaints
+const runOnMainThread = async (
+  request: GeometrizeRequest,
+  { onProgress, signal }: RunGeometrizeOptions
+): Promise<GeometrizeResult> => {
+  const job = startGeometrize(request);
+  let result = job.result();
+  onProgress?.(result);
+  for (let count = 1, shape = job.next(); shape; count++, shape = job.next()) {
+    result = addShape(result, shape, job.error());
+    onProgress?.(result);
+    if (count % MAIN_THREAD_BATCH === 0) await new Promise(resolve => setTimeout(resolve));
+    if (signal?.aborted) throw abortError();
+  }
+  return result;
+};
+
+// Function to rebuild an artwork from shapes in a dedicated Web Worker, reporting the
+// shapes and error after every step. The worker sends each new shape on its own and
+// they are appended here. The pixels are copied, so the caller keeps them.
+export const runGeometrize = (
+  request: GeometrizeRequest,
+  { onProgress, signal }: RunGeometrizeOptions = {}
+): Promise<GeometrizeResult> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined') return runOnMainThread(request, { onProgress, signal });
+
+  return new Promise((resolve, reject) => {
+    const worker = createGeometrizeWorker();
+    let current: GeometrizeResult | null = null;
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = ({ data }: MessageEvent<GeometrizeResponse>) => {
+      if (data.type === 'start' || data.type === 'shape') {
+        current = data.type === 'start' ? data.result : current && addShape(current, data.shape, data.error);
+        if (current) onProgress?.(current);
+        return;
+      }
+      finish();
+      if (data.type === 'done') resolve(data.result);
+      else reject(new Error(data.message));
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Geometrize worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+
+// Calls `onStep` with -1 or 1 when the left or right arrow key is pressed, unless
+// the focus is in a field that uses the arrow keys itself
+export const useArrowKeys = (onStep: (step: number) => void, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+      if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="slider"]')) return;
+      event.preventDefault();
+      onStep(event.key === 'ArrowLeft' ? -1 : 1);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onStep, enabled]);
+};
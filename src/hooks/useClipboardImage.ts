@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+
+// Function to pick the first image file from a paste or drop, if there is one
+export const getImageFile = (data: DataTransfer | null) =>
+  Array.from(data?.files ?? []).find(file => file.type.startsWith('image/')) ?? null;
+
+// Calls `onImage` with any image pasted onto the page. Text pastes, e.g. into
+// the artwork ID input, are left alone.
+export const useClipboardImage = (onImage: (file: File) => void) => {
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      const file = getImageFile(event.clipboardData);
+      if (!file) return;
+      event.preventDefault();
+      onImage(file);
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [onImage]);
+};
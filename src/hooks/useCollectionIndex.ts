@@ -0,0 +1,28 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ArtworkAnalysis } from '../analysis';
+import { getCachedAnalyses } from '../cache';
+import { loadCollectionDataset } from '../dataset';
+import { ArtBlocksProject } from '../projects';
+
+// Precomputed dataset merged with cached analyses and those from this session, keyed by
+// token number. Cached and session results win because they reflect the current pipeline.
+export const useCollectionIndex = (project: ArtBlocksProject, sessionAnalyses: Map<number, ArtworkAnalysis>) => {
+  const [dataset, setDataset] = useState<Map<number, ArtworkAnalysis>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    setDataset(new Map());
+    Promise.all([loadCollectionDataset(project), getCachedAnalyses(project)]).then(([loaded, cached]) => {
+      if (!cancelled) setDataset(new Map([...Array.from(loaded), ...Array.from(cached)]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  return useMemo(() => {
+    const merged = new Map(dataset);
+    sessionAnalyses.forEach((analysis, tokenId) => merged.set(tokenId, analysis));
+    return merged;
+  }, [dataset, sessionAnalyses]);
+};
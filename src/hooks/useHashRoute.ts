@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppRoute, formatRoute, parseRoute } from '../route';
+
+// Current route from the location hash, plus a function to move to another one.
+// Pushed routes create history entries, so back/forward step through them;
+// replaced routes (option toggles) update the address without one.
+export const useHashRoute = () => {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute, { replace = false } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      // replaceState does not fire hashchange, so update the route directly
+      window.history.replaceState(window.history.state, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return [route, navigate] as const;
+};
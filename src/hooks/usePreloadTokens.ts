@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { AnalysisOptions } from '../analysis';
+import { isAbortError } from '../analysis/runAnalysis';
+import { preloadToken } from '../artwork';
+import { ArtBlocksProject } from '../projects';
+
+// Preloads and analyzes the given tokens one after another in the background, so the
+// viewer can show them straight from the cache. A change of tokens or options cancels
+// the work still left.
+export const usePreloadTokens = (
+  project: ArtBlocksProject,
+  tokenIds: number[],
+  options: Partial<AnalysisOptions>,
+  cacheImages: boolean
+) => {
+  // Arrays are new on every render, so key the effect by value
+  const tokensKey = tokenIds.join(',');
+
+  useEffect(() => {
+    if (!tokensKey) return;
+    const controller = new AbortController();
+
+    const preloadAll = async () => {
+      for (const tokenId of tokensKey.split(',').map(Number)) {
+        if (controller.signal.aborted) return;
+        try {
+          await preloadToken(project, tokenId, { options, cacheImages, signal: controller.signal });
+        } catch (error) {
+          if (isAbortError(error)) return;
+          // Best effort: the viewer loads the token itself, and reports errors, when shown
+        }
+      }
+    };
+    preloadAll();
+
+    return () => controller.abort();
+  }, [project, tokensKey, options, cacheImages]);
+};
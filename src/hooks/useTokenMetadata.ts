@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { getMetadataSource, TokenMetadata } from '../metadata';
+import { ArtBlocksProject } from '../projects';
+
+// Metadata of the viewed token from the configured source. `metadata` is null while
+// loading and when the source has none; `loaded` tells the two apart.
+export const useTokenMetadata = (project: ArtBlocksProject, tokenId: number) => {
+  const [state, setState] = useState<{ metadata: TokenMetadata | null; loaded: boolean }>({
+    metadata: null,
+    loaded: false,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ metadata: null, loaded: false });
+    getMetadataSource().getTokenMetadata(project, tokenId).then(metadata => {
+      if (!cancelled) setState({ metadata, loaded: true });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [project, tokenId]);
+
+  return state;
+};
@@ -0,0 +1,43 @@
+import { ArtBlocksProject, getTokenMetadataUrl } from '../projects';
+import { ArtBlocksTokenResponse, MetadataSource, TokenMetadata } from './types';
+
+// Function to convert a token API document into metadata, turning the on-chain token
+// number back into the token index
+export const parseTokenResponse = (project: ArtBlocksProject, response: ArtBlocksTokenResponse): TokenMetadata => {
+  const features: TokenMetadata['features'] = {};
+  Object.keys(response.features ?? {}).forEach(name => {
+    const value = response.features?.[name];
+    if (value !== null && value !== undefined) features[name] = String(value);
+  });
+  return {
+    tokenId: Number(response.tokenID) - project.projectId * 1_000_000,
+    name: response.name,
+    hash: response.token_hash,
+    features,
+  };
+};
+
+// Function to create a source reading each token from the Art Blocks token API,
+// fetching every token at most once
+export const createArtBlocksMetadataSource = (): MetadataSource => {
+  const pending = new Map<string, Promise<TokenMetadata | null>>();
+
+  return {
+    getTokenMetadata: (project, tokenId) => {
+      const url = getTokenMetadataUrl(project, tokenId);
+      let loading = pending.get(url);
+      if (!loading) {
+        loading = fetch(url)
+          .then(response => (response.ok ? response.json() : null))
+          .then((response: ArtBlocksTokenResponse | null) => (response ? parseTokenResponse(project, response) : null))
+          // Unavailable for now; a later visit asks again
+          .catch(() => {
+            pending.delete(url);
+            return null;
+          });
+        pending.set(url, loading);
+      }
+      return loading;
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import { ArtBlocksProject } from '../projects';
+import { parseTokenResponse } from './artBlocksSource';
+import { MetadataFixture, MetadataSource, TokenMetadata } from './types';
+
+// Saved responses are served from `public/metadata/<project>.json` unless
+// `REACT_APP_METADATA_URL` points elsewhere, with `{project}` standing for the slug
+export const getMetadataFixtureUrl = (project: ArtBlocksProject) =>
+  (process.env.REACT_APP_METADATA_URL || `${process.env.PUBLIC_URL ?? ''}/metadata/{project}.json`)
+    .replace('{project}', project.slug);
+
+// Function to index a project's saved responses by token; empty when they belong to
+// another project
+export const indexMetadataFixture = (project: ArtBlocksProject, fixture: MetadataFixture) => {
+  if (fixture.project !== project.slug) return new Map<number, TokenMetadata>();
+  const tokens = fixture.tokens.map(token => parseTokenResponse(project, token));
+  return new Map(tokens.map(token => [token.tokenId, token]));
+};
+
+// Function to load a project's fixture, or nothing when there is none
+const fetchFixture = (project: ArtBlocksProject): Promise<MetadataFixture | null> =>
+  fetch(getMetadataFixtureUrl(project)).then(response => (response.ok ? response.json() : null));
+
+// Function to create a source backed by saved token API responses, for working offline
+// and in tests. Each project's fixture is loaded once and indexed by token.
+export const createFileMetadataSource = (
+  loadFixture: (project: ArtBlocksProject) => Promise<MetadataFixture | null> = fetchFixture
+): MetadataSource => {
+  const pending = new Map<string, Promise<Map<number, TokenMetadata>>>();
+
+  const loadProject = (project: ArtBlocksProject) => {
+    let loading = pending.get(project.slug);
+    if (!loading) {
+      loading = loadFixture(project)
+        .then(fixture => (fixture ? indexMetadataFixture(project, fixture) : new Map<number, TokenMetadata>()))
+        // Without saved responses every token is simply unavailable
+        .catch(() => new Map<number, TokenMetadata>());
+      pending.set(project.slug, loading);
+    }
+    return loading;
+  };
+
+  return {
+    getTokenMetadata: (project, tokenId) => loadProject(project).then(tokens => tokens.get(tokenId) ?? null),
+  };
+};
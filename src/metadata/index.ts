@@ -0,0 +1,21 @@
+import { createArtBlocksMetadataSource } from './artBlocksSource';
+import { createFileMetadataSource } from './fileSource';
+import { MetadataSource } from './types';
+
+export * from './types';
+export * from './traits';
+export { createArtBlocksMetadataSource, parseTokenResponse } from './artBlocksSource';
+export { createFileMetadataSource, getMetadataFixtureUrl, indexMetadataFixture } from './fileSource';
+
+let source: MetadataSource | null = null;
+
+// Source used by the app: the local fixtures when built with
+// `REACT_APP_METADATA_SOURCE=file`, the Art Blocks token API otherwise
+export const getMetadataSource = () => {
+  if (!source) {
+    source = process.env.REACT_APP_METADATA_SOURCE === 'file'
+      ? createFileMetadataSource()
+      : createArtBlocksMetadataSource();
+  }
+  return source;
+};
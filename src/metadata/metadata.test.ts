@@ -0,0 +1,75 @@
+import fixture from '../testUtils/meridianMetadata.json';
+import { ArtworkAnalysis, hexToRgb, KeyColor } from '../analysis';
+import { getProject } from '../projects';
+import { createFileMetadataSource, getMetadataFixtureUrl } from './fileSource';
+import { checkTraitColors, joinTraits } from './traits';
+import { MetadataFixture, TokenMetadata } from './types';
+
+const meridian = getProject('meridian');
+const source = createFileMetadataSource(() => Promise.resolve(fixture as MetadataFixture));
+
+const key = (hex: string): KeyColor => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label: 'Vibrant',
+  population: 50,
+  percentage: 50,
+  coverage: 25,
+  verticalPosition: 0.5,
+  spatial: null,
+});
+
+const monochrome = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const makeAnalysis = (background: string, colors: string[]): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: background, rgb: hexToRgb(background)!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors: colors.map(key),
+  coverage: { background: 50, unassigned: 0 },
+  black: monochrome,
+  white: monochrome,
+});
+
+test('reads token metadata from the fixture by token index', async () => {
+  const token = await source.getTokenMetadata(meridian, 2);
+  expect(token?.name).toBe('Meridian #2');
+  expect(token?.hash).toMatch(/^0x[0-9a-f]{64}$/);
+  expect(token?.features).toMatchObject({ Background: 'Black', Border: 'true' });
+  expect(await source.getTokenMetadata(meridian, 999)).toBeNull();
+  expect(await source.getTokenMetadata(getProject('fidenza'), 2)).toBeNull();
+});
+
+test('reads saved responses from a configurable location', () => {
+  expect(getMetadataFixtureUrl(meridian)).toMatch(/\/metadata\/meridian\.json$/);
+  process.env.REACT_APP_METADATA_URL = 'https://example.org/metadata/{project}-tokens.json';
+  expect(getMetadataFixtureUrl(meridian)).toBe('https://example.org/metadata/meridian-tokens.json');
+  delete process.env.REACT_APP_METADATA_URL;
+});
+
+test('checks colors named in traits against the measured palette', () => {
+  const metadata: TokenMetadata = {
+    tokenId: 0,
+    name: 'Meridian #0',
+    hash: '0x0',
+    features: { Palette: 'Teal and Red', Background: 'Cream', Banding: 'Wide' },
+  };
+  const checks = checkTraitColors(makeAnalysis('#f2e6ca', ['#148c8c', '#2846c8']), metadata);
+
+  expect(checks.map(c => [c.color, c.matched])).toEqual([['teal', true], ['red', false], ['cream', true]]);
+  expect(checks[0].closest).toBe('#148c8c');
+});
+
+test('joins analyses with metadata for tokens present in both', () => {
+  const analyses = new Map([
+    [3, makeAnalysis('#f0e4c8', ['#2e8c3c'])],
+    [7, makeAnalysis('#f0e4c8', ['#2e8c3c'])],
+  ]);
+  const metadata = new Map<number, TokenMetadata>([
+    [3, { tokenId: 3, name: 'Meridian #3', hash: '0x3', features: { Palette: 'Green and Orange' } }],
+  ]);
+
+  const records = joinTraits(analyses, metadata);
+  expect(records.map(r => r.tokenId)).toEqual([3]);
+  expect(records[0].checks.map(c => c.matched)).toEqual([true, false]);
+});
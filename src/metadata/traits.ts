@@ -0,0 +1,91 @@
+import { ArtworkAnalysis, colorDifference, ColorMetric, DEFAULT_COLOR_METRIC, hexToRgb } from '../analysis';
+import { TokenMetadata } from './types';
+
+// Reference colors for the color names that show up in trait values
+const TRAIT_COLORS: { [name: string]: string } = {
+  black: '#141414',
+  white: '#f5f5f5',
+  gray: '#808080',
+  grey: '#808080',
+  cream: '#f0e4c8',
+  beige: '#e1d2b4',
+  brown: '#784628',
+  red: '#c8281e',
+  orange: '#e6782a',
+  yellow: '#f0c828',
+  gold: '#d2a82e',
+  green: '#2e8c3c',
+  teal: '#148c8c',
+  cyan: '#28c8dc',
+  blue: '#2846c8',
+  navy: '#1c2a5c',
+  purple: '#6a3c9c',
+  violet: '#8c50c8',
+  pink: '#e68cb4',
+  magenta: '#c8288c',
+};
+
+// A named color counts as present when the background or a key color is this close, in ΔE
+export const TRAIT_COLOR_TOLERANCE = 25;
+
+export interface TraitColorCheck {
+  trait: string;
+  value: string;
+  // Color name found in the value, e.g. `teal` in `Teal Dusk`
+  color: string;
+  // Closest measured color and how far it is from the named one
+  closest: string;
+  difference: number;
+  matched: boolean;
+}
+
+export interface TokenTraitRecord {
+  tokenId: number;
+  analysis: ArtworkAnalysis;
+  metadata: TokenMetadata;
+  checks: TraitColorCheck[];
+}
+
+// Function to check every color named in a token's traits against its measured palette
+export const checkTraitColors = (
+  analysis: ArtworkAnalysis,
+  metadata: TokenMetadata,
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): TraitColorCheck[] => {
+  const measured = [analysis.background, ...analysis.keyColors];
+  const checks: TraitColorCheck[] = [];
+  Object.keys(metadata.features).forEach(trait => {
+    const value = metadata.features[trait];
+    const names = value.toLowerCase().split(/[^a-z]+/).filter(word => TRAIT_COLORS[word]);
+    names.filter((name, i) => names.indexOf(name) === i).forEach(color => {
+      const rgb = hexToRgb(TRAIT_COLORS[color])!;
+      const [closest] = measured
+        .map(c => ({ hex: c.hex, difference: colorDifference(rgb, c.rgb, metric) }))
+        .sort((a, b) => a.difference - b.difference);
+      checks.push({
+        trait,
+        value,
+        color,
+        closest: closest.hex,
+        difference: closest.difference,
+        matched: closest.difference <= TRAIT_COLOR_TOLERANCE,
+      });
+    });
+  });
+  return checks;
+};
+
+// Function to join analyses, such as a loaded dataset, with token metadata, keeping
+// tokens present in both
+export const joinTraits = (
+  analyses: Map<number, ArtworkAnalysis>,
+  metadata: Map<number, TokenMetadata>,
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): TokenTraitRecord[] => {
+  const records: TokenTraitRecord[] = [];
+  analyses.forEach((analysis, tokenId) => {
+    const token = metadata.get(tokenId);
+    if (token) records.push({ tokenId, analysis, metadata: token, checks: checkTraitColors(analysis, token, metric) });
+  });
+  return records.sort((a, b) => a.tokenId - b.tokenId);
+};
@@ -0,0 +1,32 @@
+import { ArtBlocksProject } from '../projects';
+
+export interface TokenMetadata {
+  tokenId: number;
+  // Name given by the platform, e.g. `Meridian #42`
+  name: string;
+  // Seed the generator script renders the token from
+  hash: string;
+  // Declared features in display order, e.g. `{ Palette: 'Cream' }`
+  features: { [name: string]: string };
+}
+
+// Where token metadata comes from, so the viewer can run against the live API or a
+// local fixture. Resolves to null for tokens the source does not know.
+export interface MetadataSource {
+  getTokenMetadata: (project: ArtBlocksProject, tokenId: number) => Promise<TokenMetadata | null>;
+}
+
+// Token document as returned by the Art Blocks token API; only the fields read here
+export interface ArtBlocksTokenResponse {
+  tokenID: string;
+  name: string;
+  token_hash: string;
+  features?: { [name: string]: string | number | boolean | null };
+}
+
+// Saved API responses for one project, as read by the file source and the batch CLI
+export interface MetadataFixture {
+  // Slug of the project the tokens belong to
+  project: string;
+  tokens: ArtBlocksTokenResponse[];
+}
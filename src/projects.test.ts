@@ -0,0 +1,51 @@
+import {
+  formatTokenId,
+  getAdjacentTokenId,
+  getArtworkImageUrl,
+  getProject,
+  getRandomTokenId,
+  getTokenUrl,
+  isValidTokenId,
+} from './projects';
+
+test('falls back to the default project for unknown slugs', () => {
+  expect(getProject('fidenza').name).toBe('Fidenza');
+  expect(getProject('nope').slug).toBe('meridian');
+  expect(getProject(null).slug).toBe('meridian');
+});
+
+test('validates token indices against the project size', () => {
+  const fidenza = getProject('fidenza');
+  expect(isValidTokenId(fidenza, '998')).toBe(true);
+  expect(isValidTokenId(fidenza, '999')).toBe(false);
+  expect(isValidTokenId(fidenza, '-1')).toBe(false);
+  expect(isValidTokenId(fidenza, '1.5')).toBe(false);
+  expect(isValidTokenId(fidenza, '')).toBe(false);
+});
+
+test('builds image and token URLs from the project templates', () => {
+  const ringers = getProject('ringers');
+  expect(formatTokenId(ringers, 7)).toBe('007');
+  expect(getArtworkImageUrl(ringers, 7)).toBe('https://media.artblocks.io/13000007.png');
+  expect(getTokenUrl(getProject('meridian'), 42))
+    .toBe('https://www.artblocks.io/token/0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270/163000042');
+});
+
+test('steps through tokens, wrapping around at either end', () => {
+  const fidenza = getProject('fidenza');
+  expect(getAdjacentTokenId(fidenza, 41, 1)).toBe(42);
+  expect(getAdjacentTokenId(fidenza, 998, 1)).toBe(0);
+  expect(getAdjacentTokenId(fidenza, 0, -1)).toBe(998);
+});
+
+test('picks random tokens other than the excluded one', () => {
+  const meridian = getProject('meridian');
+  expect(getRandomTokenId(meridian, null, () => 0.5)).toBe(500);
+  expect(getRandomTokenId(meridian, 0, () => 0)).toBe(1);
+  expect(getRandomTokenId(meridian, 999, () => 0.9999)).toBe(998);
+});
+
+test('fills the padded token index into templates that use it', () => {
+  const project = { ...getProject('ringers'), imageUrlTemplate: 'https://example.com/ringers/{tokenId}.png' };
+  expect(getArtworkImageUrl(project, 7)).toBe('https://example.com/ringers/007.png');
+});
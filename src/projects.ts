@@ -0,0 +1,113 @@
+// Art Blocks projects the viewer can browse. Token links and image URLs come from
+// the templates below, with these placeholders:
+//   {contract}     the project's core contract address
+//   {tokenNumber}  the on-chain token number: project ID × 1,000,000 + token index
+//   {tokenId}      the zero-padded token index shown in the UI, e.g. `042`
+export interface ArtBlocksProject {
+  // Short identifier used in URLs, cache keys and dataset file names
+  slug: string;
+  // Art Blocks project number, e.g. 163 for Meridian
+  projectId: number;
+  name: string;
+  artist: string;
+  tokenCount: number;
+  contract: string;
+  imageUrlTemplate: string;
+  tokenUrlTemplate: string;
+  // Token API returning the token's name, hash and features
+  metadataUrlTemplate: string;
+}
+
+const ART_BLOCKS_CURATED_CONTRACT = '0xa7d8d9ef8d8ce8992df33d8b8cf4aebabd5bd270';
+const ART_BLOCKS_IMAGE_URL = 'https://media.artblocks.io/{tokenNumber}.png';
+const ART_BLOCKS_TOKEN_URL = 'https://www.artblocks.io/token/{contract}/{tokenNumber}';
+const ART_BLOCKS_METADATA_URL = 'https://token.artblocks.io/{contract}/{tokenNumber}';
+
+export const PROJECTS: ArtBlocksProject[] = [
+  {
+    slug: 'meridian',
+    projectId: 163,
+    name: 'Meridian',
+    artist: 'Matt DesLauriers',
+    tokenCount: 1000,
+    contract: ART_BLOCKS_CURATED_CONTRACT,
+    imageUrlTemplate: ART_BLOCKS_IMAGE_URL,
+    tokenUrlTemplate: ART_BLOCKS_TOKEN_URL,
+    metadataUrlTemplate: ART_BLOCKS_METADATA_URL,
+  },
+  {
+    slug: 'fidenza',
+    projectId: 78,
+    name: 'Fidenza',
+    artist: 'Tyler Hobbs',
+    tokenCount: 999,
+    contract: ART_BLOCKS_CURATED_CONTRACT,
+    imageUrlTemplate: ART_BLOCKS_IMAGE_URL,
+    tokenUrlTemplate: ART_BLOCKS_TOKEN_URL,
+    metadataUrlTemplate: ART_BLOCKS_METADATA_URL,
+  },
+  {
+    slug: 'ringers',
+    projectId: 13,
+    name: 'Ringers',
+    artist: 'Dmitri Cherniak',
+    tokenCount: 1000,
+    contract: ART_BLOCKS_CURATED_CONTRACT,
+    imageUrlTemplate: ART_BLOCKS_IMAGE_URL,
+    tokenUrlTemplate: ART_BLOCKS_TOKEN_URL,
+    metadataUrlTemplate: ART_BLOCKS_METADATA_URL,
+  },
+];
+
+export const DEFAULT_PROJECT = PROJECTS[0];
+
+// Function to look up a project by slug, falling back to the default project
+export const getProject = (slug: string | null | undefined) =>
+  PROJECTS.find(project => project.slug === slug) ?? DEFAULT_PROJECT;
+
+// Function to zero-pad a token index to the width of the project's largest index
+export const formatTokenId = (project: ArtBlocksProject, tokenId: number | string) =>
+  tokenId.toString().padStart(String(project.tokenCount - 1).length, '0');
+
+// Function to check that a typed or linked token index exists in the project
+export const isValidTokenId = (project: ArtBlocksProject, id: string | number) => {
+  const tokenId = Number(id);
+  return String(id).trim() !== '' && Number.isInteger(tokenId) && tokenId >= 0 && tokenId < project.tokenCount;
+};
+
+// Function to step through a project's tokens, wrapping around at either end
+export const getAdjacentTokenId = (project: ArtBlocksProject, tokenId: number, step: number) =>
+  (((tokenId + step) % project.tokenCount) + project.tokenCount) % project.tokenCount;
+
+// Function to pick a random token, other than the one being viewed
+export const getRandomTokenId = (project: ArtBlocksProject, exclude: number | null = null, random = Math.random) => {
+  const count = exclude === null ? project.tokenCount : project.tokenCount - 1;
+  const tokenId = Math.floor(random() * count);
+  return exclude !== null && tokenId >= exclude ? tokenId + 1 : tokenId;
+};
+
+export const getTokenNumber = (project: ArtBlocksProject, tokenId: number | string) =>
+  project.projectId * 1_000_000 + Number(tokenId);
+
+// Display name for a token, e.g. `Meridian #042`
+export const getTokenLabel = (project: ArtBlocksProject, tokenId: number | string) =>
+  `${project.name} #${formatTokenId(project, tokenId)}`;
+
+const fillTemplate = (template: string, project: ArtBlocksProject, tokenId: number | string) =>
+  template
+    .replace('{contract}', project.contract)
+    .replace('{tokenNumber}', String(getTokenNumber(project, tokenId)))
+    .replace('{tokenId}', formatTokenId(project, tokenId));
+
+// Image file name used by the Art Blocks media host, e.g. `163000042.png`
+export const getArtworkFileName = (project: ArtBlocksProject, tokenId: number | string) =>
+  `${getTokenNumber(project, tokenId)}.png`;
+
+export const getArtworkImageUrl = (project: ArtBlocksProject, tokenId: number | string) =>
+  fillTemplate(project.imageUrlTemplate, project, tokenId);
+
+export const getTokenUrl = (project: ArtBlocksProject, tokenId: number | string) =>
+  fillTemplate(project.tokenUrlTemplate, project, tokenId);
+
+export const getTokenMetadataUrl = (project: ArtBlocksProject, tokenId: number | string) =>
+  fillTemplate(project.metadataUrlTemplate, project, tokenId);
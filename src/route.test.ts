@@ -0,0 +1,68 @@
+import { DEFAULT_VIEW_OPTIONS, formatRoute, parseRoute } from './route';
+
+test('parses token routes with view options', () => {
+  expect(parseRoute('#/token/042?percentage=coverage&layout=extent&extractor=all&metric=oklab')).toEqual({
+    project: 'meridian',
+    view: 'viewer',
+    tokenId: 42,
+    tokens: [],
+    options: { ...DEFAULT_VIEW_OPTIONS, percentage: 'coverage', layout: 'extent', extractor: 'all', metric: 'oklab' },
+  });
+});
+
+test('falls back to the landing page and default options for unknown input', () => {
+  expect(parseRoute('')).toEqual({
+    project: 'meridian',
+    view: 'viewer',
+    tokenId: null,
+    tokens: [],
+    options: DEFAULT_VIEW_OPTIONS,
+  });
+  expect(parseRoute('#/token/abc?layout=diagonal&metric=cmc')).toEqual({
+    project: 'meridian',
+    view: 'viewer',
+    tokenId: null,
+    tokens: [],
+    options: DEFAULT_VIEW_OPTIONS,
+  });
+});
+
+test('formats routes that parse back to themselves', () => {
+  const route = {
+    project: 'meridian',
+    view: 'viewer' as const,
+    tokenId: 7,
+    tokens: [],
+    options: { ...DEFAULT_VIEW_OPTIONS, layout: 'centroid' as const },
+  };
+  expect(formatRoute(route)).toBe('#/token/007?layout=centroid');
+  expect(parseRoute(formatRoute(route))).toEqual(route);
+  expect(formatRoute({ project: 'meridian', view: 'gallery', tokenId: null, tokens: [], options: DEFAULT_VIEW_OPTIONS })).toBe('#/gallery');
+  expect(parseRoute('#/stats?project=fidenza')).toMatchObject({ project: 'fidenza', view: 'stats', tokenId: null });
+});
+
+test('round-trips the compared tokens', () => {
+  const route = parseRoute('#/compare/042,108,7');
+  expect(route).toMatchObject({ view: 'compare', tokens: [42, 108, 7] });
+  expect(formatRoute(route)).toBe('#/compare/042,108,007');
+});
+
+test('drops compared tokens outside the project, repeats and any past the limit', () => {
+  expect(parseRoute('#/compare/042,1000,042,108').tokens).toEqual([42, 108]);
+  expect(parseRoute('#/compare/1,2,3,4,5').tokens).toEqual([1, 2, 3, 4]);
+});
+
+test('keeps non-default projects in the query and pads to their token count', () => {
+  const route = parseRoute('#/token/7?project=fidenza');
+  expect(route).toMatchObject({ project: 'fidenza', tokenId: 7 });
+  expect(formatRoute(route)).toBe('#/token/007?project=fidenza');
+  expect(parseRoute('#/token/7?project=unknown').project).toBe('meridian');
+});
+
+test('round-trips tuning parameters and the preset name', () => {
+  const route = parseRoute('#/token/042?preset=Soft+edges&white=230&stride=2&padding=99');
+  expect(route.options.preset).toBe('Soft edges');
+  expect(route.options.tuning).toMatchObject({ whiteThreshold: 230, positionStride: 2, stackPadding: 30 });
+  expect(route.options.tuning.blackThreshold).toBe(DEFAULT_VIEW_OPTIONS.tuning.blackThreshold);
+  expect(formatRoute(route)).toBe('#/token/042?preset=Soft+edges&white=230&stride=2&padding=30');
+});
@@ -0,0 +1,98 @@
+import { BandLayout, COLOR_METRICS, ColorMetric, DEFAULT_COLOR_METRIC, EXTRACTOR_IDS, ExtractorId, PercentageMode } from './analysis';
+import { MAX_COMPARE_TOKENS } from './compare';
+import { DEFAULT_PROJECT, formatTokenId, getProject, isValidTokenId, PROJECTS } from './projects';
+import { DEFAULT_TUNING, readTuning, Tuning, writeTuning } from './tuning';
+
+export type AppView = 'viewer' | 'gallery' | 'search' | 'compare' | 'stats';
+
+// View options carried in the query string so shared links reproduce the layout
+export interface ViewOptions {
+  percentage: PercentageMode;
+  layout: BandLayout;
+  // Palette backend for the viewer, or `all` to show every backend side by side
+  extractor: ExtractorId | 'all';
+  // Color difference used by the analysis and the swatch highlight
+  metric: ColorMetric;
+  // Analysis and display parameters; only values that differ from the defaults are written
+  tuning: Tuning;
+  // Name of the preset the tuning came from, kept for exports; null once edited
+  preset: string | null;
+}
+
+export interface AppRoute {
+  // Slug of the selected project, see `PROJECTS`
+  project: string;
+  view: AppView;
+  // Token shown in the viewer, null on the landing page and the other views
+  tokenId: number | null;
+  // Tokens side by side in the compare view, empty elsewhere
+  tokens: number[];
+  options: ViewOptions;
+}
+
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+  percentage: 'legacy',
+  layout: 'position',
+  extractor: 'vibrant',
+  metric: DEFAULT_COLOR_METRIC,
+  tuning: DEFAULT_TUNING,
+  preset: null,
+};
+
+const PERCENTAGE_MODES: PercentageMode[] = ['legacy', 'coverage'];
+const BAND_LAYOUTS: BandLayout[] = ['position', 'centroid', 'extent'];
+const EXTRACTOR_CHOICES: ViewOptions['extractor'][] = [...EXTRACTOR_IDS, 'all'];
+const METRIC_CHOICES = Object.keys(COLOR_METRICS) as ColorMetric[];
+
+// Function to read a query value, falling back when it is missing or unknown
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Function to parse a location hash such as `#/token/042?percentage=coverage`
+// or `#/compare/042,108`.
+// Hash routes keep working on static hosting like GitHub Pages.
+export const parseRoute = (hash: string): AppRoute => {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  const params = new URLSearchParams(query);
+  const project = pick(params.get('project'), PROJECTS.map(p => p.slug), DEFAULT_PROJECT.slug);
+  const options: ViewOptions = {
+    percentage: pick(params.get('percentage'), PERCENTAGE_MODES, DEFAULT_VIEW_OPTIONS.percentage),
+    layout: pick(params.get('layout'), BAND_LAYOUTS, DEFAULT_VIEW_OPTIONS.layout),
+    extractor: pick(params.get('extractor'), EXTRACTOR_CHOICES, DEFAULT_VIEW_OPTIONS.extractor),
+    metric: pick(params.get('metric'), METRIC_CHOICES, DEFAULT_VIEW_OPTIONS.metric),
+    tuning: readTuning(params),
+    preset: params.get('preset') || null,
+  };
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments[0] === 'token' && /^\d+$/.test(segments[1] ?? '')) {
+    return { project, view: 'viewer', tokenId: Number(segments[1]), tokens: [], options };
+  }
+  if (segments[0] === 'compare') {
+    // Links can name tokens outside the project, repeat them or list more than fit side by side
+    const ids = (segments[1] ?? '').split(',').filter(id => /^\d+$/.test(id) && isValidTokenId(getProject(project), id));
+    const tokens = Array.from(new Set(ids.map(Number))).slice(0, MAX_COMPARE_TOKENS);
+    return { project, view: 'compare', tokenId: null, tokens, options };
+  }
+  if (segments[0] === 'gallery' || segments[0] === 'search' || segments[0] === 'stats') {
+    return { project, view: segments[0], tokenId: null, tokens: [], options };
+  }
+  return { project, view: 'viewer', tokenId: null, tokens: [], options };
+};
+
+// Function to build the hash for a route, leaving the default project and options out of the query
+export const formatRoute = ({ project, view, tokenId, tokens, options }: AppRoute) => {
+  const format = (id: number) => formatTokenId(getProject(project), id);
+  const path = view === 'compare' && tokens.length > 0
+    ? `/compare/${tokens.map(format).join(',')}`
+    : view !== 'viewer' ? `/${view}` : tokenId !== null ? `/token/${format(tokenId)}` : '/';
+  const params = new URLSearchParams();
+  if (project !== DEFAULT_PROJECT.slug) params.set('project', project);
+  (['percentage', 'layout', 'extractor', 'metric'] as const).forEach(key => {
+    if (options[key] !== DEFAULT_VIEW_OPTIONS[key]) params.set(key, options[key]);
+  });
+  if (options.preset) params.set('preset', options.preset);
+  writeTuning(options.tuning, params);
+  const query = params.toString();
+  return `#${path}${query ? `?${query}` : ''}`;
+};
@@ -0,0 +1,48 @@
+import { ArtworkAnalysis, hexToRgb, SwatchLabel } from '../analysis';
+import { searchByColor } from './colorSearch';
+
+const coverage = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const makeAnalysis = (background: string, colors: Array<[string, number]>): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: background, rgb: hexToRgb(background)!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors: colors.map(([hex, percentage], i) => ({
+    hex,
+    rgb: hexToRgb(hex)!,
+    label: 'Vibrant' as SwatchLabel,
+    population: percentage,
+    percentage,
+    coverage: percentage / 2,
+    verticalPosition: i / colors.length,
+    spatial: null,
+  })),
+  coverage: { background: 50, unassigned: 0 },
+  black: coverage,
+  white: coverage,
+});
+
+const teal = hexToRgb('#148c8c')!;
+const cream = hexToRgb('#f0e4c8')!;
+
+const index = new Map<number, ArtworkAnalysis>([
+  [1, makeAnalysis('#f0e4c8', [['#148c8c', 70], ['#c8281e', 30]])],
+  [2, makeAnalysis('#f0e4c8', [['#1a8a90', 20], ['#c8281e', 80]])],
+  [3, makeAnalysis('#101010', [['#148c8c', 90], ['#c8281e', 10]])],
+  [4, makeAnalysis('#f0e4c8', [['#c8281e', 100]])],
+]);
+
+test('ranks tokens by how much of the target color they contain', () => {
+  const results = searchByColor(index, { targets: [teal], background: null, tolerance: 15 });
+  expect(results.map(r => r.tokenId)).toEqual([3, 1, 2]);
+});
+
+test('filters by background color when one is given', () => {
+  const results = searchByColor(index, { targets: [teal], background: cream, tolerance: 15 });
+  expect(results.map(r => r.tokenId)).toEqual([1, 2]);
+  expect(results[0].backgroundScore).toBe(1);
+});
+
+test('returns nothing for an empty query', () => {
+  expect(searchByColor(index, { targets: [], background: null, tolerance: 15 })).toEqual([]);
+});
@@ -0,0 +1,80 @@
+import { ArtworkAnalysis, backgroundDifference, colorDifference, ColorMetric, DEFAULT_COLOR_METRIC, KeyColor, RGB } from '../analysis';
+
+export interface ColorQuery {
+  targets: RGB[];
+  // When set, only tokens whose background is within tolerance match
+  background: RGB | null;
+  // Maximum perceptual difference for a key color or background to count as a match
+  tolerance: number;
+  metric?: ColorMetric;
+}
+
+export interface TargetMatch {
+  target: RGB;
+  // Key colors within tolerance of the target, closest first
+  colors: KeyColor[];
+  score: number;
+}
+
+export interface ColorSearchResult {
+  tokenId: number;
+  // 0-1, higher is a closer match
+  score: number;
+  targets: TargetMatch[];
+  backgroundScore: number | null;
+}
+
+// Function to map a distance inside the tolerance to 1 (identical) - 0 (at the limit)
+const closeness = (distance: number, tolerance: number) => {
+  return distance > tolerance ? 0 : 1 - distance / tolerance;
+};
+
+// Function to score one target against a token: the coverage of every key color
+// within tolerance, each weighted by how close it is
+const matchTarget = (analysis: ArtworkAnalysis, target: RGB, tolerance: number, metric: ColorMetric): TargetMatch => {
+  const scored = analysis.keyColors
+    .map(color => ({ color, distance: colorDifference(color.rgb, target, metric) }))
+    .filter(({ distance }) => distance <= tolerance)
+    .sort((a, b) => a.distance - b.distance);
+
+  const score = scored.reduce(
+    (sum, { color, distance }) => sum + closeness(distance, tolerance) * (color.percentage / 100),
+    0
+  );
+
+  return { target, colors: scored.map(({ color }) => color), score: Math.min(1, score) };
+};
+
+// Rank every indexed token against the query. Tokens must match all targets
+// (and the background, if given) to be returned.
+export const searchByColor = (
+  index: Map<number, ArtworkAnalysis>,
+  query: ColorQuery,
+  limit = 100
+): ColorSearchResult[] => {
+  if (query.targets.length === 0 && !query.background) return [];
+  const metric = query.metric ?? DEFAULT_COLOR_METRIC;
+
+  const results: ColorSearchResult[] = [];
+
+  index.forEach((analysis, tokenId) => {
+    const targets = query.targets.map(target => matchTarget(analysis, target, query.tolerance, metric));
+    if (targets.some(t => t.score === 0)) return;
+
+    let backgroundScore: number | null = null;
+    if (query.background) {
+      backgroundScore = closeness(backgroundDifference(query.background, analysis.background, metric), query.tolerance);
+      if (backgroundScore === 0) return;
+    }
+
+    const scores = targets.map(t => t.score);
+    if (backgroundScore !== null) scores.push(backgroundScore);
+    const score = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+
+    results.push({ tokenId, score, targets, backgroundScore });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.tokenId - b.tokenId)
+    .slice(0, limit);
+};
@@ -0,0 +1,74 @@
+import { ArtworkAnalysis, hexToRgb, SwatchLabel } from '../analysis';
+import { computeCollectionStats } from './collectionStats';
+
+const color = (hex: string, percentage: number, label: SwatchLabel = 'Vibrant') => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label,
+  population: percentage,
+  percentage,
+  coverage: percentage,
+  verticalPosition: 0,
+  spatial: null,
+});
+
+const monochrome = (percentage: number) => ({ pixelCount: 0, percentage, verticalPosition: 0, significant: percentage >= 5 });
+
+const analysis = (
+  background: string,
+  keyColors: ReturnType<typeof color>[],
+  { black = 0, white = 0, unassigned = 0 } = {}
+): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: background, rgb: hexToRgb(background)!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors,
+  coverage: { background: 50, unassigned },
+  black: monochrome(black),
+  white: monochrome(white),
+});
+
+const index = new Map<number, ArtworkAnalysis>([
+  [0, analysis('#f0e4c8', [color('#148c8c', 60), color('#c8281e', 30)], { black: 8 })],
+  [1, analysis('#f2e6ca', [color('#c8281e', 70), color('#148c8c', 20)], { white: 12 })],
+  [2, analysis('#1a1a1a', [color('#808080', 80, 'Muted')], { black: 6, white: 6 })],
+  [3, analysis('#f0e4c8', [color('#2828c8', 50), color('#808080', 50, 'Muted')])],
+]);
+
+test('clusters similar backgrounds, largest first', () => {
+  const { backgrounds, tokenCount } = computeCollectionStats(index);
+  expect(tokenCount).toBe(4);
+  expect(backgrounds.map(b => b.tokenIds)).toEqual([[0, 1, 3], [2]]);
+  expect(backgrounds[0].label).toBe('#F0E4C8');
+});
+
+test('bins the dominant chromatic hue of each token', () => {
+  const hues = computeCollectionStats(index).hues.filter(b => b.tokenIds.length > 0);
+  expect(hues.map(b => [b.label, b.tokenIds])).toEqual([
+    ['Red', [1]],
+    ['Cyan', [0]],
+    ['Blue', [3]],
+    ['Neutral', [2]],
+  ]);
+});
+
+test('groups significant black and white and key color counts', () => {
+  const { monochrome, keyColorCounts } = computeCollectionStats(index);
+  expect(monochrome.map(b => [b.key, b.tokenIds])).toEqual([
+    ['black', [0]],
+    ['white', [1]],
+    ['both', [2]],
+    ['neither', [3]],
+  ]);
+  expect(keyColorCounts.map(b => [b.label, b.tokenIds])).toEqual([['1 color', [2]], ['2 colors', [0, 1, 3]]]);
+});
+
+test('flags tokens far from the rest of the collection', () => {
+  const large = new Map<number, ArtworkAnalysis>();
+  for (let i = 0; i < 20; i++) large.set(i, analysis('#f0e4c8', [color('#148c8c', 60)], { unassigned: 2 }));
+  large.set(20, analysis('#f0e4c8', [color('#148c8c', 60)], { unassigned: 40 }));
+
+  const { outliers } = computeCollectionStats(large);
+  expect(outliers.map(o => o.tokenId)).toEqual([20]);
+  expect(outliers[0].reasons).toEqual(['40% unassigned']);
+});
@@ -0,0 +1,187 @@
+import { ArtworkAnalysis, colorDifference, ColorMetric, DEFAULT_COLOR_METRIC, rgbToHsl } from '../analysis';
+
+// A group of tokens behind one bar of a chart
+export interface StatsBucket {
+  key: string;
+  label: string;
+  // CSS color for the bar, null for neutral buckets
+  color: string | null;
+  tokenIds: number[];
+}
+
+export interface TokenOutlier {
+  tokenId: number;
+  // Largest distance from the collection mean, in standard deviations
+  score: number;
+  reasons: string[];
+}
+
+export interface CollectionStats {
+  tokenCount: number;
+  // Clusters of similar backgrounds, largest first
+  backgrounds: StatsBucket[];
+  // Hue of each token's dominant chromatic key color, around the wheel, then neutral
+  hues: StatsBucket[];
+  // Significant black and white, as flagged by the analysis share threshold
+  monochrome: StatsBucket[];
+  keyColorCounts: StatsBucket[];
+  outliers: TokenOutlier[];
+}
+
+// Backgrounds within this ΔE of a cluster's first member join the cluster
+export const BACKGROUND_CLUSTER_TOLERANCE = 10;
+// Key colors below these HSL values (0-100) count as neutral when picking the dominant hue
+const MIN_HUE_SATURATION = 20;
+const MIN_HUE_LIGHTNESS = 10;
+const MAX_HUE_LIGHTNESS = 90;
+// Tokens further than this many standard deviations from the mean on any measure are outliers
+export const OUTLIER_THRESHOLD = 3;
+const MAX_OUTLIERS = 20;
+
+const HUE_NAMES = [
+  'Red',
+  'Orange',
+  'Yellow',
+  'Chartreuse',
+  'Green',
+  'Spring green',
+  'Cyan',
+  'Azure',
+  'Blue',
+  'Violet',
+  'Magenta',
+  'Rose',
+];
+const HUE_BIN_SIZE = 360 / HUE_NAMES.length;
+
+const MONOCHROME_BUCKETS: Omit<StatsBucket, 'tokenIds'>[] = [
+  { key: 'black', label: 'Black only', color: '#1a1a1a' },
+  { key: 'white', label: 'White only', color: '#ffffff' },
+  { key: 'both', label: 'Black and white', color: null },
+  { key: 'neither', label: 'Neither', color: null },
+];
+
+// Function to sort a map of token lists into buckets in key order
+const toBuckets = <K>(groups: Map<K, number[]>, describe: (key: K) => Omit<StatsBucket, 'tokenIds'>) =>
+  Array.from(groups.entries()).map(([key, tokenIds]) => ({ ...describe(key), tokenIds }));
+
+const addTo = <K>(groups: Map<K, number[]>, key: K, tokenId: number) => {
+  groups.set(key, [...(groups.get(key) ?? []), tokenId]);
+};
+
+// Function to cluster backgrounds greedily in token order, so results are stable
+const clusterBackgrounds = (entries: [number, ArtworkAnalysis][], metric: ColorMetric): StatsBucket[] => {
+  const clusters: { analysis: ArtworkAnalysis; tokenIds: number[] }[] = [];
+  entries.forEach(([tokenId, analysis]) => {
+    const cluster = clusters.find(c => (
+      colorDifference(c.analysis.background.rgb, analysis.background.rgb, metric) <= BACKGROUND_CLUSTER_TOLERANCE
+    ));
+    if (cluster) cluster.tokenIds.push(tokenId);
+    else clusters.push({ analysis, tokenIds: [tokenId] });
+  });
+  return clusters
+    .sort((a, b) => b.tokenIds.length - a.tokenIds.length)
+    .map(({ analysis, tokenIds }) => ({
+      key: analysis.background.hex.toLowerCase(),
+      label: analysis.background.hex.toUpperCase(),
+      color: analysis.background.hex,
+      tokenIds,
+    }));
+};
+
+// Function to find the hue bin of a token's largest chromatic key color, or -1 when all are neutral
+const getDominantHueBin = (analysis: ArtworkAnalysis) => {
+  const chromatic = analysis.keyColors
+    .map(color => ({ color, hsl: rgbToHsl(color.rgb.r, color.rgb.g, color.rgb.b) }))
+    .filter(({ hsl }) => hsl.s >= MIN_HUE_SATURATION && hsl.l >= MIN_HUE_LIGHTNESS && hsl.l <= MAX_HUE_LIGHTNESS);
+  if (chromatic.length === 0) return -1;
+  const { hsl } = chromatic.reduce((a, b) => (b.color.percentage > a.color.percentage ? b : a));
+  // Bins are centered on their hue, so red spans 345°-15°
+  return Math.floor(((hsl.h + HUE_BIN_SIZE / 2) % 360) / HUE_BIN_SIZE);
+};
+
+interface OutlierMeasure {
+  value: (analysis: ArtworkAnalysis, tokenId: number) => number;
+  describe: (value: number) => string;
+}
+
+// Function to flag tokens far from the collection on any measure, furthest first
+const findOutliers = (entries: [number, ArtworkAnalysis][], measures: OutlierMeasure[]): TokenOutlier[] => {
+  const columns = measures.map(measure => {
+    const values = entries.map(([tokenId, analysis]) => measure.value(analysis, tokenId));
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const deviation = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    return { measure, values, mean, deviation };
+  });
+
+  return entries
+    .map(([tokenId], i) => {
+      const flagged = columns
+        .filter(c => c.deviation > 0)
+        .map(c => ({ c, z: Math.abs(c.values[i] - c.mean) / c.deviation }))
+        .filter(({ z }) => z >= OUTLIER_THRESHOLD)
+        .sort((a, b) => b.z - a.z);
+      return {
+        tokenId,
+        score: flagged[0]?.z ?? 0,
+        reasons: flagged.map(({ c }) => c.measure.describe(c.values[i])),
+      };
+    })
+    .filter(outlier => outlier.reasons.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_OUTLIERS);
+};
+
+// Function to summarize every analyzed token of a collection for the statistics dashboard
+export const computeCollectionStats = (
+  index: Map<number, ArtworkAnalysis>,
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): CollectionStats => {
+  const entries = Array.from(index.entries()).sort(([a], [b]) => a - b);
+  const backgrounds = clusterBackgrounds(entries, metric);
+
+  const hues = new Map<number, number[]>();
+  HUE_NAMES.forEach((_, bin) => hues.set(bin, []));
+  hues.set(-1, []);
+  const monochrome = new Map<string, number[]>(MONOCHROME_BUCKETS.map(({ key }) => [key, []]));
+  const keyColorCounts = new Map<number, number[]>();
+
+  entries.forEach(([tokenId, analysis]) => {
+    addTo(hues, getDominantHueBin(analysis), tokenId);
+    const { black, white } = analysis;
+    addTo(monochrome, black.significant && white.significant ? 'both'
+      : black.significant ? 'black'
+      : white.significant ? 'white'
+      : 'neither', tokenId);
+    addTo(keyColorCounts, analysis.keyColors.length, tokenId);
+  });
+
+  const clusterSizes = new Map<number, number>();
+  backgrounds.forEach(bucket => bucket.tokenIds.forEach(id => clusterSizes.set(id, bucket.tokenIds.length)));
+
+  const outliers = findOutliers(entries, [
+    { value: a => a.keyColors.length, describe: v => `${v} key colors` },
+    { value: a => a.coverage.unassigned, describe: v => `${Math.round(v)}% unassigned` },
+    { value: a => a.black.percentage, describe: v => `${Math.round(v)}% black` },
+    { value: a => a.white.percentage, describe: v => `${Math.round(v)}% white` },
+    {
+      value: (_, tokenId) => clusterSizes.get(tokenId) ?? 0,
+      describe: v => `background shared by ${v} of ${entries.length}`,
+    },
+  ]);
+
+  return {
+    tokenCount: entries.length,
+    backgrounds,
+    hues: toBuckets(hues, bin => (bin < 0
+      ? { key: 'neutral', label: 'Neutral', color: null }
+      : { key: String(bin * HUE_BIN_SIZE), label: HUE_NAMES[bin], color: `hsl(${bin * HUE_BIN_SIZE}, 70%, 50%)` })),
+    monochrome: MONOCHROME_BUCKETS.map(bucket => ({ ...bucket, tokenIds: monochrome.get(bucket.key) ?? [] })),
+    keyColorCounts: toBuckets(keyColorCounts, count => ({
+      key: String(count),
+      label: `${count} color${count === 1 ? '' : 's'}`,
+      color: null,
+    })).sort((a, b) => Number(a.key) - Number(b.key)),
+    outliers,
+  };
+};
@@ -0,0 +1,56 @@
+import { MaterialTheme, SchemeMode, TONAL_PALETTE_NAMES } from './materialTheme';
+
+// Function to turn a camelCase role or palette name into a CSS token segment
+const kebab = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+const schemeDeclarations = (theme: MaterialTheme, mode: SchemeMode, indent: string) =>
+  Object.entries(theme.schemes[mode]).map(([role, hex]) => `${indent}--md-sys-color-${kebab(role)}: ${hex};`);
+
+// CSS custom properties named after Material's design tokens: reference palettes,
+// the light scheme on `:root` and the dark scheme behind `prefers-color-scheme`
+export const toMaterialCss = (theme: MaterialTheme, title: string) => {
+  const palettes = TONAL_PALETTE_NAMES.flatMap(name =>
+    Object.entries(theme.palettes[name]).map(([tone, hex]) => `  --md-ref-palette-${kebab(name)}${tone}: ${hex};`)
+  );
+  return [
+    `/* ${title} Material theme, seed ${theme.source} */`,
+    ':root {',
+    `  --md-source: ${theme.source};`,
+    ...palettes,
+    '',
+    ...schemeDeclarations(theme, 'light', '  '),
+    '}',
+    '',
+    '@media (prefers-color-scheme: dark) {',
+    '  :root {',
+    ...schemeDeclarations(theme, 'dark', '    '),
+    '  }',
+    '}',
+  ].join('\n') + '\n';
+};
+
+// JSON laid out like Material Theme Builder's export, so it loads in the same tooling
+export const toMaterialJson = (theme: MaterialTheme, title: string) => {
+  const document = {
+    description: `${title} Material theme`,
+    seed: theme.source,
+    coreColors: { primary: theme.source },
+    schemes: theme.schemes,
+    palettes: theme.palettes,
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+};
+
+export type ThemeExportFormat = 'json' | 'css';
+
+export const THEME_EXPORT_FORMATS: {
+  [format in ThemeExportFormat]: {
+    label: string;
+    extension: string;
+    mimeType: string;
+    build: (theme: MaterialTheme, title: string) => string;
+  };
+} = {
+  json: { label: 'Material theme JSON', extension: 'theme.json', mimeType: 'application/json', build: toMaterialJson },
+  css: { label: 'CSS design tokens', extension: 'theme.css', mimeType: 'text/css', build: toMaterialCss },
+};
@@ -0,0 +1,2 @@
+export * from './materialTheme';
+export * from './formats';
@@ -0,0 +1,53 @@
+import { ArtworkAnalysis, hexToRgb, SwatchLabel } from '../analysis';
+import { toMaterialCss, toMaterialJson } from './formats';
+import { buildMaterialTheme, getSeedColor, THEME_TONES } from './materialTheme';
+
+const monochrome = { pixelCount: 0, percentage: 0, verticalPosition: 0, significant: false };
+
+const color = (hex: string, label: SwatchLabel, percentage: number) => ({
+  hex,
+  rgb: hexToRgb(hex)!,
+  label,
+  population: percentage,
+  percentage,
+  coverage: percentage,
+  verticalPosition: 0,
+  spatial: null,
+});
+
+const analysis = (keyColors: ReturnType<typeof color>[]): ArtworkAnalysis => ({
+  width: 100,
+  height: 100,
+  background: { hex: '#f0e4c8', rgb: hexToRgb('#f0e4c8')!, kind: 'solid', confidence: 1, gradient: null },
+  keyColors,
+  coverage: { background: 50, unassigned: 0 },
+  black: monochrome,
+  white: monochrome,
+});
+
+test('seeds from a colorful key color rather than a larger neutral one', () => {
+  const seed = getSeedColor(analysis([color('#808080', 'Muted', 70), color('#148c8c', 'Vibrant', 30)]));
+  expect(seed).toEqual(hexToRgb('#148c8c'));
+});
+
+test('falls back to the largest key color, then the background', () => {
+  expect(getSeedColor(analysis([color('#808080', 'Muted', 30), color('#202020', 'Black', 70)])))
+    .toEqual(hexToRgb('#202020'));
+  expect(getSeedColor(analysis([]))).toEqual(hexToRgb('#f0e4c8'));
+});
+
+test('builds tonal palettes, both schemes and a Chakra scale', () => {
+  const theme = buildMaterialTheme(hexToRgb('#148c8c')!);
+  expect(theme.source).toBe('#148c8c');
+  expect(Object.keys(theme.palettes.primary).map(Number)).toEqual(THEME_TONES);
+  expect(theme.palettes.neutral[0]).toBe('#000000');
+  expect(theme.palettes.neutral[100]).toBe('#ffffff');
+  expect(theme.schemes.light.primary).toBe(theme.palettes.primary[40]);
+  expect(theme.schemes.dark.primary).toBe(theme.palettes.primary[80]);
+  expect(theme.scale[500]).toBe(theme.palettes.primary[40]);
+
+  const css = toMaterialCss(theme, 'Meridian #042');
+  expect(css).toContain(`--md-sys-color-on-primary-container: ${theme.schemes.light.onPrimaryContainer};`);
+  expect(css).toContain(`--md-ref-palette-neutral-variant50: ${theme.palettes.neutralVariant[50]};`);
+  expect(JSON.parse(toMaterialJson(theme, 'Meridian #042')).schemes.dark.surface).toBe(theme.schemes.dark.surface);
+});
@@ -0,0 +1,84 @@
+import {
+  argbFromRgb,
+  hexFromArgb,
+  Score,
+  themeFromSourceColor,
+  TonalPalette,
+} from '@material/material-color-utilities';
+import { ArtworkAnalysis, RGB } from '../analysis';
+
+export type TonalPaletteName = 'primary' | 'secondary' | 'tertiary' | 'neutral' | 'neutralVariant' | 'error';
+export type SchemeMode = 'light' | 'dark';
+
+// Tones Material's theme builder publishes for every tonal palette
+export const THEME_TONES = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100];
+
+export const TONAL_PALETTE_NAMES: TonalPaletteName[] = [
+  'primary',
+  'secondary',
+  'tertiary',
+  'neutral',
+  'neutralVariant',
+  'error',
+];
+
+// Material color scheme generated from an artwork, with every color as a hex string
+export interface MaterialTheme {
+  // The seed color the palettes were generated from
+  source: string;
+  palettes: { [name in TonalPaletteName]: { [tone: number]: string } };
+  // Color roles such as `primary` or `onSurfaceVariant` for each mode
+  schemes: { [mode in SchemeMode]: { [role: string]: string } };
+  // Primary palette as a Chakra color scale (50-900)
+  scale: { [step: number]: string };
+}
+
+// Chakra scale steps and the primary tone each maps to. 500 is used for solid buttons
+// with white text, so it takes tone 40, Material's own primary on light surfaces.
+const SCALE_TONES: [number, number][] = [
+  [50, 95],
+  [100, 90],
+  [200, 80],
+  [300, 70],
+  [400, 60],
+  [500, 40],
+  [600, 35],
+  [700, 30],
+  [800, 20],
+  [900, 10],
+];
+
+// Function to pick the seed color of an artwork: the key color Material's scoring ranks
+// first by coverage and chroma, or the largest key color when none is colorful enough
+export const getSeedColor = (analysis: ArtworkAnalysis): RGB => {
+  if (analysis.keyColors.length === 0) return analysis.background.rgb;
+  const largest = analysis.keyColors.reduce((a, b) => (b.percentage > a.percentage ? b : a));
+  const populations = new Map<number, number>();
+  analysis.keyColors.forEach(({ rgb, percentage }) => {
+    const argb = argbFromRgb(rgb.r, rgb.g, rgb.b);
+    populations.set(argb, (populations.get(argb) ?? 0) + percentage);
+  });
+  const fallback = argbFromRgb(largest.rgb.r, largest.rgb.g, largest.rgb.b);
+  const [seed] = Score.score(populations, { desired: 1, fallbackColorARGB: fallback });
+  return analysis.keyColors.find(({ rgb }) => argbFromRgb(rgb.r, rgb.g, rgb.b) === seed)?.rgb ?? largest.rgb;
+};
+
+const tonesOf = (palette: TonalPalette) =>
+  Object.fromEntries(THEME_TONES.map(tone => [tone, hexFromArgb(palette.tone(tone))]));
+
+// Function to generate the tonal palettes and light and dark schemes for a seed color
+export const buildMaterialTheme = (seed: RGB): MaterialTheme => {
+  const theme = themeFromSourceColor(argbFromRgb(seed.r, seed.g, seed.b));
+  const schemeOf = (mode: SchemeMode) => Object.fromEntries(
+    Object.entries(theme.schemes[mode].toJSON()).map(([role, argb]) => [role, hexFromArgb(argb)])
+  );
+
+  return {
+    source: hexFromArgb(theme.source),
+    palettes: Object.fromEntries(
+      TONAL_PALETTE_NAMES.map(name => [name, tonesOf(theme.palettes[name])])
+    ) as MaterialTheme['palettes'],
+    schemes: { light: schemeOf('light'), dark: schemeOf('dark') },
+    scale: Object.fromEntries(SCALE_TONES.map(([step, tone]) => [step, hexFromArgb(theme.palettes.primary.tone(tone))])),
+  };
+};
@@ -0,0 +1,40 @@
+import { DEFAULT_TUNING, getAnalysisThresholds, loadPresets, readTuning, savePresets } from './tuning';
+
+test('passes only analysis values on to the analysis', () => {
+  const thresholds = getAnalysisThresholds({ ...DEFAULT_TUNING, whiteThreshold: 230, stackPadding: 0 });
+  expect(thresholds.whiteThreshold).toBe(230);
+  expect(thresholds).not.toHaveProperty('stackPadding');
+  expect(thresholds).not.toHaveProperty('minBandHeight');
+});
+
+test('saves presets and fills in parameters added since they were saved', () => {
+  savePresets([{ name: 'Dark', tuning: { ...DEFAULT_TUNING, blackThreshold: 50 } }]);
+  const { blackThreshold, ...older } = { ...DEFAULT_TUNING, blackThreshold: 50 };
+  localStorage.setItem('meridian-art-viewer.presets', JSON.stringify([
+    ...JSON.parse(localStorage.getItem('meridian-art-viewer.presets')!),
+    { name: 'Older', tuning: older },
+    { nope: true },
+  ]));
+
+  const presets = loadPresets();
+  expect(presets.map(p => p.name)).toEqual(['Dark', 'Older']);
+  expect(presets[0].tuning.blackThreshold).toBe(blackThreshold);
+  expect(presets[1].tuning.blackThreshold).toBe(DEFAULT_TUNING.blackThreshold);
+
+  localStorage.setItem('meridian-art-viewer.presets', 'not json');
+  expect(loadPresets()).toEqual([]);
+});
+
+test('fits URL and preset values to the parameter ranges and steps', () => {
+  const tuning = readTuning(new URLSearchParams('stride=2.5&white=999&black=abc'));
+  expect(tuning.positionStride).toBe(3);
+  expect(tuning.whiteThreshold).toBe(255);
+  expect(tuning.blackThreshold).toBe(DEFAULT_TUNING.blackThreshold);
+
+  localStorage.setItem('meridian-art-viewer.presets', JSON.stringify([
+    { name: 'Odd', tuning: { ...DEFAULT_TUNING, positionStride: 1.4, borderWidth: -3 } },
+  ]));
+  const [preset] = loadPresets();
+  expect(preset.tuning.positionStride).toBe(1);
+  expect(preset.tuning.borderWidth).toBe(1);
+});
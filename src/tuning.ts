@@ -0,0 +1,234 @@
+import { AnalysisOptions, DEFAULT_ANALYSIS_OPTIONS } from './analysis';
+
+// Thresholds the analysis runs with, plus how the color stack lays out its bands.
+// The extractor and color metric have their own controls and are not part of a preset.
+export type Tuning = Omit<AnalysisOptions, 'extractor' | 'metric'> & {
+  // Smallest band height in the color stack, in percent of its height
+  minBandHeight: number;
+  // Empty margin above and below the bands, in percent of the stack height
+  stackPadding: number;
+};
+
+export type TuningKey = keyof Tuning;
+
+export interface TuningParameter {
+  key: TuningKey;
+  // Short name used in URLs, e.g. `?white=230`
+  query: string;
+  label: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number;
+  // Display parameters only change the rendering, never the analysis itself
+  group: 'analysis' | 'display';
+}
+
+export interface TuningPreset {
+  name: string;
+  tuning: Tuning;
+}
+
+export const DEFAULT_TUNING: Tuning = {
+  backgroundTolerance: DEFAULT_ANALYSIS_OPTIONS.backgroundTolerance,
+  backgroundSeparation: DEFAULT_ANALYSIS_OPTIONS.backgroundSeparation,
+  positionMatch: DEFAULT_ANALYSIS_OPTIONS.positionMatch,
+  duplicateMerge: DEFAULT_ANALYSIS_OPTIONS.duplicateMerge,
+  assignmentTolerance: DEFAULT_ANALYSIS_OPTIONS.assignmentTolerance,
+  whiteThreshold: DEFAULT_ANALYSIS_OPTIONS.whiteThreshold,
+  blackThreshold: DEFAULT_ANALYSIS_OPTIONS.blackThreshold,
+  significantShare: DEFAULT_ANALYSIS_OPTIONS.significantShare,
+  borderWidth: DEFAULT_ANALYSIS_OPTIONS.borderWidth,
+  positionStride: DEFAULT_ANALYSIS_OPTIONS.positionStride,
+  minBandHeight: 10,
+  stackPadding: 10,
+};
+
+export const TUNING_PARAMETERS: TuningParameter[] = [
+  {
+    key: 'whiteThreshold',
+    query: 'white',
+    label: 'White threshold',
+    description: 'Brightness at or above which a pixel counts as white',
+    min: 180,
+    max: 255,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'blackThreshold',
+    query: 'black',
+    label: 'Black threshold',
+    description: 'Brightness at or below which a pixel counts as black',
+    min: 0,
+    max: 80,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'significantShare',
+    query: 'significant',
+    label: 'Black/white share',
+    description: 'Percent of the canvas black or white must cover to become a key color',
+    min: 0,
+    max: 30,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'borderWidth',
+    query: 'border',
+    label: 'Border width',
+    description: 'Width of the border read for the background, in percent of the shorter side',
+    min: 1,
+    max: 25,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'backgroundTolerance',
+    query: 'bgTolerance',
+    label: 'Background tolerance',
+    description: 'ΔE within which border pixels count as the same background color',
+    min: 1,
+    max: 30,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'backgroundSeparation',
+    query: 'bgSeparation',
+    label: 'Background separation',
+    description: 'ΔE a swatch must differ from the background by to be a key color',
+    min: 0,
+    max: 50,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'positionStride',
+    query: 'stride',
+    label: 'Position stride',
+    description: 'Sample every nth row and column when locating colors',
+    min: 1,
+    max: 16,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'positionMatch',
+    query: 'positionMatch',
+    label: 'Position match',
+    description: 'ΔE within which a pixel counts toward a color’s position',
+    min: 1,
+    max: 40,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'duplicateMerge',
+    query: 'merge',
+    label: 'Duplicate merge',
+    description: 'Key colors closer than this ΔE are merged',
+    min: 0,
+    max: 30,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'assignmentTolerance',
+    query: 'assign',
+    label: 'Coverage tolerance',
+    description: 'Pixels further than this ΔE from every color stay unassigned',
+    min: 2,
+    max: 60,
+    step: 1,
+    group: 'analysis',
+  },
+  {
+    key: 'minBandHeight',
+    query: 'minBand',
+    label: 'Minimum band height',
+    description: 'Smallest band in the color stack, in percent',
+    min: 0,
+    max: 30,
+    step: 1,
+    group: 'display',
+  },
+  {
+    key: 'stackPadding',
+    query: 'padding',
+    label: 'Stack padding',
+    description: 'Margin above and below the bands, in percent',
+    min: 0,
+    max: 30,
+    step: 1,
+    group: 'display',
+  },
+];
+
+// Function to pick out the values that affect the analysis, leaving display-only ones
+export const getAnalysisThresholds = (tuning: Tuning): Partial<AnalysisOptions> => {
+  const { minBandHeight, stackPadding, ...thresholds } = tuning;
+  return thresholds;
+};
+
+// Function to clamp a value to a parameter's range and round it to the parameter's step,
+// so a value like `?stride=2.5` can't reach the analysis
+const fitToParameter = ({ min, max, step }: TuningParameter, value: number) => {
+  const snapped = min + Math.round((value - min) / step) * step;
+  // toFixed drops the float error fractional steps would leave behind
+  return Math.min(max, Math.max(min, Number(snapped.toFixed(6))));
+};
+
+// Function to read tuning values from query parameters, fitting them to each
+// parameter and falling back to the defaults for missing or invalid ones
+export const readTuning = (params: URLSearchParams): Tuning => {
+  const tuning = { ...DEFAULT_TUNING };
+  TUNING_PARAMETERS.forEach(parameter => {
+    const value = Number(params.get(parameter.query) ?? NaN);
+    if (params.has(parameter.query) && Number.isFinite(value)) tuning[parameter.key] = fitToParameter(parameter, value);
+  });
+  return tuning;
+};
+
+// Function to write the values that differ from the defaults into query parameters
+export const writeTuning = (tuning: Tuning, params: URLSearchParams) => {
+  TUNING_PARAMETERS.forEach(({ key, query }) => {
+    if (tuning[key] !== DEFAULT_TUNING[key]) params.set(query, String(tuning[key]));
+  });
+  return params;
+};
+
+export const isDefaultTuning = (tuning: Tuning) =>
+  TUNING_PARAMETERS.every(({ key }) => tuning[key] === DEFAULT_TUNING[key]);
+
+const PRESETS_KEY = 'meridian-art-viewer.presets';
+
+// Function to fit saved preset values to the parameters, filling in ones added since
+// the preset was saved
+const fitPresetTuning = (saved: { [key: string]: unknown }): Tuning => {
+  const tuning = { ...DEFAULT_TUNING };
+  TUNING_PARAMETERS.forEach(parameter => {
+    const value = saved[parameter.key];
+    if (typeof value === 'number' && Number.isFinite(value)) tuning[parameter.key] = fitToParameter(parameter, value);
+  });
+  return tuning;
+};
+
+// Function to read the saved presets, ignoring anything unreadable
+export const loadPresets = (): TuningPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved
+      .filter(preset => typeof preset?.name === 'string' && preset.tuning)
+      .map(preset => ({ name: preset.name, tuning: fitPresetTuning(preset.tuning) }));
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: TuningPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};